@@ -0,0 +1,149 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CONFIG } from './config';
+import { getProvider, LLMProvider } from './llm';
+import { AiMatchCache, Language } from './types';
+
+export function loadAiMatchCache(): AiMatchCache {
+  try {
+    return JSON.parse(fs.readFileSync(path.resolve(CONFIG.AI_MATCH_CACHE_FILE), 'utf-8'));
+  } catch (error) {
+    return { version: 1, entries: {} };
+  }
+}
+
+export function saveAiMatchCache(cache: AiMatchCache): string {
+  const filePath = path.resolve(CONFIG.AI_MATCH_CACHE_FILE);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(cache, null, 2), 'utf-8');
+  return filePath;
+}
+
+// Model requests left for the whole run, shared across cards
+export interface AiCallBudget {
+  remaining: number;
+}
+
+function cacheKey(trackTitle: string, language: Language, model: string): string {
+  return `${language}|${model}|${trackTitle.trim()}`;
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Asks for one keyword per title out of the whole vocabulary. Vocabularies
+ * larger than one request are split; when several parts each offer a pick,
+ * a final request chooses between those picks.
+ */
+async function chooseFromVocabulary(
+  provider: LLMProvider,
+  trackTitles: string[],
+  keywords: string[],
+  budget: AiCallBudget
+): Promise<Array<string | null>> {
+  const valid = new Set(keywords);
+  const parts = chunk(keywords, CONFIG.AI_MATCH_KEYWORD_CHUNK);
+  const picks: string[][] = trackTitles.map(() => []);
+
+  for (const part of parts) {
+    budget.remaining--;
+    const answers = await provider.chooseKeywords(trackTitles, part);
+    answers.forEach((answer, i) => {
+      if (answer && valid.has(answer)) picks[i].push(answer);
+    });
+  }
+
+  const contested = trackTitles.map((_, i) => i).filter(i => picks[i].length > 1);
+  if (contested.length > 0) {
+    const finalists = Array.from(new Set(contested.flatMap(i => picks[i])));
+    budget.remaining--;
+    const answers = await provider.chooseKeywords(contested.map(i => trackTitles[i]), finalists);
+    contested.forEach((titleIndex, i) => {
+      const answer = answers[i];
+      picks[titleIndex] = answer && picks[titleIndex].includes(answer) ? [answer] : [];
+    });
+  }
+
+  return picks.map(p => p[0] || null);
+}
+
+/**
+ * Finds a keyword for each title with as few model calls as possible:
+ * answers are cached on disk per title, language and model, and the
+ * remaining titles go out in batches. A batch that fails is not cached,
+ * so the next run asks again, and so is a batch the budget cannot cover.
+ * Returns title -> keyword (null = no match); empty when no provider is
+ * configured.
+ */
+export async function aiMatchKeywords(
+  trackTitles: string[],
+  language: Language,
+  availableKeywords: string[],
+  options: { refresh?: boolean; budget?: AiCallBudget } = {}
+): Promise<Map<string, string | null>> {
+  const budget = options.budget || { remaining: Infinity };
+  const results = new Map<string, string | null>();
+  let provider: LLMProvider;
+  try {
+    provider = getProvider();
+  } catch {
+    return results; // No provider configured (e.g. no API key): the tier is skipped quietly
+  }
+  const cache = loadAiMatchCache();
+  const pending: string[] = [];
+
+  for (const title of new Set(trackTitles)) {
+    const cached = cache.entries[cacheKey(title, language, provider.model)];
+    // An answer naming a keyword that no longer exists is stale
+    if (cached && !options.refresh && (cached.keyword === null || availableKeywords.includes(cached.keyword))) {
+      results.set(title, cached.keyword);
+    } else {
+      pending.push(title);
+    }
+  }
+
+  if (results.size > 0) {
+    console.log(`💾 ${results.size} AI matches from cache`);
+  }
+  if (pending.length === 0 || availableKeywords.length === 0) {
+    pending.forEach(title => results.set(title, null));
+    return results;
+  }
+
+  const batches = chunk(pending, CONFIG.AI_MATCH_BATCH_SIZE);
+  console.log(`🤖 AI matching ${pending.length} titles in ${batches.length} batch${batches.length > 1 ? 'es' : ''}...`);
+
+  // A split vocabulary costs one request per part, plus one to settle contested titles
+  const parts = Math.ceil(availableKeywords.length / CONFIG.AI_MATCH_KEYWORD_CHUNK);
+  const callsPerBatch = parts > 1 ? parts + 1 : 1;
+
+  for (const [batchIndex, batch] of batches.entries()) {
+    if (budget.remaining < callsPerBatch) {
+      const skipped = batches.slice(batchIndex).flat();
+      console.log(`⏸️  AI call budget used up - ${skipped.length} titles left unmatched`);
+      skipped.forEach(title => results.set(title, null));
+      break;
+    }
+
+    try {
+      const answers = await chooseFromVocabulary(provider, batch, availableKeywords, budget);
+      const matchedAt = new Date().toISOString();
+      batch.forEach((title, i) => {
+        results.set(title, answers[i]);
+        cache.entries[cacheKey(title, language, provider.model)] = { keyword: answers[i], matchedAt };
+      });
+      saveAiMatchCache(cache);
+    } catch (error) {
+      console.warn('⚠️  AI matching failed:', error);
+      batch.forEach(title => results.set(title, null));
+    }
+  }
+
+  return results;
+}
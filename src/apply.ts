@@ -1,33 +1,43 @@
 #!/usr/bin/env node
 
+import * as fs from 'fs';
+import * as path from 'path';
 import minimist from 'minimist';
-import { getPlaylist, updateCardWithIcons, validatePlaylist } from './yoto';
-import { matchIcon, getIconMappingStats, suggestMatches, aiMatchKeyword, getAvailableKeywords, loadIconMappings } from './matchIcon';
-import { formatTextForDisplay } from './config';
-import { ApplyOptions, YotoTrack } from './types';
-
-interface MatchResult {
-  track: YotoTrack;
-  keyword: string | null;
-  iconId: string | null;
-  confidence: 'exact' | 'partial' | 'ai' | 'none';
-  searchTerms: string[];
-}
+import { resolveBearer } from './auth';
+import { getPlaylist, updateCardWithIcons, listMyCards, isDefaultIcon, toIconRef } from './yoto';
+import { describeYotoError, YotoAuthError } from './yotoHttp';
+import {
+  matchIcon,
+  getIconMappingStats,
+  suggestMatches,
+  loadIconMappings,
+  selectIcon,
+  getCandidateCount,
+  findKeywordForIcon
+} from './matchIcon';
+import { formatTextForDisplay, getLanguage, listLanguages, parseLanguageArg } from './languages';
+import { configureProvider, getProvider, parseProviderArgs, PROVIDER_USAGE } from './llm';
+import { checkPolicy, describePolicy, parsePolicyArgs, policyForCard, usesAi, usesSemantic, POLICY_USAGE } from './policy';
+import { reviewMatches } from './review';
+import { matchPlaylistInContext } from './context';
+import { aiMatchKeywords, AiCallBudget } from './aiMatch';
+import { findOverride, loadOverrides, overrideMatch } from './overrides';
+import { CONFIG } from './config';
+import { semanticMatchKeywords, SemanticMatch } from './semantic';
+import { ApplyOptions, MatchResult, MatchStats, IconUpdate, OverwritePolicy, CardApplyResult, Language, MatchingPolicy } from './types';
 
 async function analyzePlaylist(
   bearerToken: string,
   cardId: string,
-  language: 'english' | 'hebrew' = 'english',
-  useAI: boolean = true
+  language: Language,
+  options: ApplyOptions,
+  policy: MatchingPolicy,
+  aiBudget: AiCallBudget,
+  rotation?: Map<string, number>
 ): Promise<{
+  title: string;
   matches: MatchResult[];
-  stats: {
-    total: number;
-    exact: number;
-    partial: number;
-    ai: number;
-    none: number;
-  };
+  stats: MatchStats;
 }> {
   console.log('🎵 Fetching playlist...');
   const playlist = await getPlaylist(bearerToken, cardId);
@@ -35,37 +45,80 @@ async function analyzePlaylist(
   console.log('\n🔍 Analyzing tracks for icon matches...\n');
 
   const matches: MatchResult[] = [];
-  const stats = { total: 0, exact: 0, partial: 0, ai: 0, none: 0 };
+  const stats: MatchStats = { total: 0, exact: 0, partial: 0, semantic: 0, ai: 0, override: 0, none: 0 };
   const iconMappings = loadIconMappings(language);
-  const availableKeywords = getAvailableKeywords(language);
 
-  for (const track of playlist.tracks) {
-    const match = matchIcon(track.title, language);
+  // Local overrides win over every matching tier
+  const overrides = loadOverrides().overrides;
+  const pinned = playlist.tracks.map(track => findOverride(overrides, track, cardId));
+
+  // Context mode decides every track up front, since each depends on its chapter and neighbours
+  const contextMatches = options.context ? matchPlaylistInContext(playlist, language, rotation) : null;
+  const baseMatches: MatchResult[] = playlist.tracks.map((track, i) => {
+    if (pinned[i]) {
+      return overrideMatch(pinned[i]!, track, language, rotation);
+    }
+    if (contextMatches) {
+      return contextMatches[i];
+    }
 
-    let result: MatchResult = {
+    const match = matchIcon(track.title, language, rotation);
+    return {
       track,
       keyword: match.keyword,
       iconId: match.iconId,
       confidence: match.confidence,
-      searchTerms: match.searchTerms
+      searchTerms: match.searchTerms,
+      explanation: match.explanation,
+      score: match.score,
+      relevance: match.relevance
     };
+  });
+
+  // Embedding similarity places unmatched titles by meaning, against keywords that have icons
+  const unmatched = () => baseMatches.filter(m => m.confidence === 'none').map(m => m.track.title);
+  const semanticMatches = usesSemantic(policy)
+    ? await semanticMatchKeywords(unmatched(), language, Object.keys(iconMappings), policy.semanticThreshold)
+    : new Map<string, SemanticMatch>();
+  for (const [i, match] of baseMatches.entries()) {
+    const semantic = match.confidence === 'none' ? semanticMatches.get(match.track.title) : undefined;
+    if (semantic) {
+      baseMatches[i] = {
+        track: match.track,
+        keyword: semantic.keyword,
+        iconId: selectIcon(semantic.keyword, rotation, language),
+        confidence: 'semantic',
+        searchTerms: match.searchTerms,
+        explanation: [`"${match.track.title}" ~ ${semantic.keyword} [cosine ${semantic.similarity.toFixed(2)}]`],
+        score: semantic.similarity
+      };
+    }
+  }
 
-    // Try AI matching for unmatched tracks, fallback to exact/partial if AI fails
-    if (match.confidence === 'none' && useAI && availableKeywords.length > 0) {
-      console.log(`🤖 AI matching for "${track.title}"...`);
-      const aiMatch = await aiMatchKeyword(track.title, availableKeywords);
-
-      if (aiMatch.keyword && iconMappings[aiMatch.keyword]) {
-        // AI found a match with available icon - use it
-        result = {
-          track,
-          keyword: aiMatch.keyword,
-          iconId: iconMappings[aiMatch.keyword],
-          confidence: 'ai',
-          searchTerms: [track.title]
-        };
-      }
-      // If AI fails or returns unmapped keyword, keep the original (none) result
+  // The rest go to the AI in batches, against keywords that have icons (as for the semantic tier);
+  // answers are cached, so unchanged cards cost nothing
+  const unmatchedTitles = unmatched();
+  const aiMatches = usesAi(policy) && unmatchedTitles.length > 0
+    ? await aiMatchKeywords(unmatchedTitles, language, Object.keys(iconMappings), { refresh: options.refreshAi, budget: aiBudget })
+    : new Map<string, string | null>();
+  if (aiMatches.size > 0 || semanticMatches.size > 0) {
+    console.log();
+  }
+
+  for (const baseMatch of baseMatches) {
+    const track = baseMatch.track;
+    let result = baseMatch;
+
+    // Use the AI's keyword for unmatched tracks when it has an icon; otherwise keep the (none) result
+    const aiKeyword = result.confidence === 'none' ? aiMatches.get(track.title) : null;
+    if (aiKeyword && iconMappings[aiKeyword]) {
+      result = {
+        track,
+        keyword: aiKeyword,
+        iconId: selectIcon(aiKeyword, rotation, language),
+        confidence: 'ai',
+        searchTerms: [track.title]
+      };
     }
 
     matches.push(result);
@@ -76,7 +129,9 @@ async function analyzePlaylist(
     const confidenceIcon = {
       exact: '✅',
       partial: '🟡',
+      semantic: '🧠',
       ai: '🤖',
+      override: '📌',
       none: '❌'
     }[result.confidence];
 
@@ -85,9 +140,18 @@ async function analyzePlaylist(
     console.log(`${confidenceIcon} "${displayTitle}"`);
 
     if (result.keyword && result.iconId) {
-      console.log(`    → ${result.keyword} (${result.iconId})`);
-    } else if (result.keyword) {
-      console.log(`    → ${result.keyword} (no icon mapping available)`);
+      const candidateCount = getCandidateCount(result.keyword, language);
+      const candidateInfo = candidateCount > 1 ? ` [1 of ${candidateCount} candidates]` : '';
+      console.log(`    → ${result.keyword} (${result.iconId})${rotation ? '' : candidateInfo}`);
+      if (result.explanation) {
+        console.log(`    💬 ${result.explanation.join('; ')}`);
+      }
+    } else if (result.keyword || result.confidence === 'override') {
+      const target = result.iconId || (result.keyword ? `${result.keyword} (no icon mapping available)` : 'no icon');
+      console.log(`    → ${target}`);
+      if (result.explanation) {
+        console.log(`    💬 ${result.explanation.join('; ')}`);
+      }
     } else {
       console.log(`    → No match found`);
       console.log(`    🔍 Search terms extracted: [${result.searchTerms.join(', ')}]`);
@@ -103,54 +167,85 @@ async function analyzePlaylist(
     console.log();
   }
 
-  return { matches, stats };
+  return { title: playlist.title, matches, stats };
 }
 
-function displayStats(stats: { total: number; exact: number; partial: number; ai: number; none: number }): void {
+function checkOverwrite(
+  match: MatchResult,
+  policy: OverwritePolicy,
+  language: Language
+): { allowed: boolean; reason?: string } {
+  const current = match.track.display?.icon16x16;
+  if (isDefaultIcon(current)) {
+    return { allowed: true };
+  }
+
+  const currentRef = toIconRef(current!);
+  if (match.iconId && currentRef === match.iconId) {
+    return { allowed: false, reason: 'already has this icon' };
+  }
+
+  if (policy === 'all') {
+    return { allowed: true };
+  }
+
+  if (policy === 'matched-better') {
+    const currentKeyword = findKeywordForIcon(currentRef, language);
+    if (!currentKeyword) {
+      return { allowed: false, reason: 'custom icon' };
+    }
+    if (match.confidence === 'exact' && match.keyword !== currentKeyword) {
+      return { allowed: true };
+    }
+    return { allowed: false, reason: `keeps catalog icon (${currentKeyword})` };
+  }
+
+  return { allowed: false, reason: 'custom icon' };
+}
+
+function displaySkipped(skipped: Array<{ match: MatchResult; reason: string }>, language: Language): void {
+  console.log(`\n🛡️  Preserving ${skipped.length} existing icons:`);
+  for (const { match, reason } of skipped) {
+    const displayTitle = formatTextForDisplay(match.track.title, language);
+    console.log(`  ⏭️  "${displayTitle}" - ${reason} (${match.track.display?.icon16x16})`);
+  }
+}
+
+function displayStats(stats: MatchStats): void {
   console.log('\n📊 Match Statistics:');
   console.log(`  Total tracks: ${stats.total}`);
   console.log(`  ✅ Exact matches: ${stats.exact} (${Math.round(stats.exact / stats.total * 100)}%)`);
   console.log(`  🟡 Partial matches: ${stats.partial} (${Math.round(stats.partial / stats.total * 100)}%)`);
+  if (stats.override > 0) {
+    console.log(`  📌 Overrides: ${stats.override} (${Math.round(stats.override / stats.total * 100)}%)`);
+  }
+  if (stats.semantic > 0) {
+    console.log(`  🧠 Semantic matches: ${stats.semantic} (${Math.round(stats.semantic / stats.total * 100)}%)`);
+  }
   if (stats.ai > 0) {
     console.log(`  🤖 AI matches: ${stats.ai} (${Math.round(stats.ai / stats.total * 100)}%)`);
   }
   console.log(`  ❌ No matches: ${stats.none} (${Math.round(stats.none / stats.total * 100)}%)`);
-  const assignable = stats.exact + stats.partial + stats.ai;
+  const assignable = stats.exact + stats.partial + stats.semantic + stats.ai + stats.override;
   console.log(`  🎯 Assignable: ${assignable} (${Math.round(assignable / stats.total * 100)}%)`);
 }
 
-async function runApplyMode(options: ApplyOptions): Promise<void> {
-  console.log(`🎯 Apply Mode - Playlist: ${options.playlist}`);
-  console.log(`${options.dryRun ? '🧪 DRY RUN MODE - No actual changes will be made' : '🚀 LIVE MODE - Changes will be applied'}`);
-  console.log(`🤖 AI MATCHING - Using OpenAI for unmatched tracks`);
-  console.log();
-
-  // Validate playlist exists
-  const isValid = await validatePlaylist(options.bearer, options.playlist);
-  if (!isValid) {
-    console.error('❌ Cannot access playlist. Check your bearer token and playlist ID.');
-    process.exit(1);
-  }
-
-  // Show icon mapping status
-  const language = options.language || 'english';
-  const mappingStats = getIconMappingStats(language);
-  const langDisplay = language === 'english' ? 'english' : formatTextForDisplay('עברית', language);
-  console.log(`📚 Icon Mapping Status (${langDisplay}):`);
-  console.log(`  Available keywords: ${mappingStats.totalKeywords}`);
-  console.log(`  Mapped to icons: ${mappingStats.mappedKeywords}`);
-  console.log(`  Unmapped: ${mappingStats.unmappedKeywords.length}`);
-
-  if (mappingStats.mappedKeywords === 0) {
-    console.error('\n❌ No icon mappings available! Run plan mode first:');
-    console.error('   ts-node src/plan.ts --bearer $BEARER --language english');
-    process.exit(1);
+async function applyToCard(
+  options: ApplyOptions,
+  cardId: string,
+  language: Language,
+  aiBudget: AiCallBudget
+): Promise<CardApplyResult> {
+  const policy = policyForCard(options.policy, cardId);
+  if (options.policy.cards[cardId]) {
+    console.log(`📜 Card policy overrides: ${JSON.stringify(options.policy.cards[cardId])}\n`);
   }
 
-  console.log();
-
   // Analyze playlist
-  const { matches, stats } = await analyzePlaylist(options.bearer, options.playlist, language, true);
+  // Per-playlist usage counts so repeated keywords cycle through their candidate icons
+  const rotation = options.rotate ? new Map<string, number>() : undefined;
+  const { title, matches, stats } = await analyzePlaylist(options.bearer, cardId, language, options, policy, aiBudget, rotation);
+  const result: CardApplyResult = { cardId, title, stats, updated: 0, failed: 0, skipped: 0 };
 
   displayStats(stats);
 
@@ -165,31 +260,234 @@ async function runApplyMode(options: ApplyOptions): Promise<void> {
     }
   }
 
-  // Filter matches that can be applied (include AI matches)
-  const applicableMatches = matches.filter(m => m.iconId && ['exact', 'partial', 'ai'].includes(m.confidence));
+  // Leave user-chosen icons alone unless the overwrite policy allows replacing them
+  const skipped: Array<{ match: MatchResult; reason: string }> = [];
+  const reviewable = matches.filter(m => {
+    const decision = checkOverwrite(m, policy.overwrite, language);
+    if (!decision.allowed && (m.iconId || options.interactive)) {
+      skipped.push({ match: m, reason: decision.reason! });
+    }
+    return decision.allowed;
+  });
+  result.skipped = skipped.length;
 
-  if (applicableMatches.length === 0) {
-    console.log('\n🤷 No tracks can be updated with icons.');
-    return;
+  if (skipped.length > 0) {
+    displaySkipped(skipped, language);
   }
 
-  console.log(`\n📝 ${applicableMatches.length} tracks ready for icon assignment:`);
+  // Only tiers and scores the matching policy allows are sent; interactive review still shows the rest
+  const heldBack: Array<{ match: MatchResult; reason: string }> = [];
+  const applicableMatches = reviewable.filter(m => {
+    if (!m.iconId) return false;
+    const decision = checkPolicy(m, policy);
+    if (!decision.allowed) {
+      heldBack.push({ match: m, reason: decision.reason! });
+    }
+    return decision.allowed;
+  });
 
-  const updates = applicableMatches.map(match => ({
-    track: match.track,
-    iconId: match.iconId!
-  }));
+  if (heldBack.length > 0) {
+    console.log(`\n📜 Held back by the matching policy (${heldBack.length}):`);
+    for (const { match, reason } of heldBack) {
+      console.log(`  ⏸️  "${formatTextForDisplay(match.track.title, language)}" → ${match.keyword} - ${reason}`);
+    }
+  }
+
+  if (applicableMatches.length === 0 && !options.interactive) {
+    console.log('\n🤷 No tracks can be updated with icons.');
+    return result;
+  }
+
+  let updates: IconUpdate[];
+  if (options.interactive) {
+    // Every track is reviewed, so unmatched ones can still get a hand-picked keyword;
+    // tracks pinned to "no icon" stay out of it. Held-back matches need an explicit yes
+    const toReview = reviewable.filter(m => m.confidence !== 'override' || m.iconId);
+    const heldBackReasons = new Map(heldBack.map(({ match, reason }) => [match, reason]));
+    updates = await reviewMatches(toReview, language, rotation, cardId, heldBackReasons);
+    if (updates.length === 0) {
+      console.log('\n🤷 No updates approved.');
+      return result;
+    }
+    console.log(`\n📝 ${updates.length} approved tracks ready for icon assignment:`);
+  } else {
+    console.log(`\n📝 ${applicableMatches.length} tracks ready for icon assignment:`);
+    updates = applicableMatches.map(match => ({
+      track: match.track,
+      iconId: match.iconId!
+    }));
+  }
 
   // Apply updates
-  const result = await updateCardWithIcons(options.bearer, options.playlist, updates, options.dryRun);
+  const updateResult = await updateCardWithIcons(options.bearer, cardId, updates, options.dryRun);
+  result.updated = updateResult.success;
+  result.failed = updateResult.failed;
 
   // Summary
-  console.log('\n🎉 Apply Mode completed!');
+  console.log(`\n🎉 Card ${cardId} completed!`);
   if (options.dryRun) {
-    console.log(`🧪 DRY RUN - Would have updated ${result.success} tracks`);
+    console.log(`🧪 DRY RUN - Would have updated ${updateResult.success} tracks`);
   } else {
-    console.log(`✅ Successfully updated: ${result.success}`);
-    console.log(`❌ Failed: ${result.failed}`);
+    console.log(`✅ Successfully updated: ${updateResult.success}`);
+    console.log(`❌ Failed: ${updateResult.failed}`);
+  }
+  if (skipped.length > 0) {
+    console.log(`🛡️  Preserved existing icons: ${skipped.length}`);
+    for (const { match, reason } of skipped) {
+      console.log(`   - "${formatTextForDisplay(match.track.title, language)}" (${reason})`);
+    }
+    if (policy.overwrite !== 'all') {
+      console.log(`   Use --overwrite=all to replace them`);
+    }
+  }
+
+  return result;
+}
+
+function displayBatchSummary(results: CardApplyResult[], dryRun: boolean): void {
+  console.log('\n' + '='.repeat(50));
+  console.log(`📦 Batch Summary (${results.length} cards):`);
+
+  for (const r of results) {
+    const label = r.title ? `${r.cardId} "${r.title}"` : r.cardId;
+    if (r.error) {
+      console.log(`  ❌ ${label} - ${r.error}`);
+    } else {
+      const verb = dryRun ? 'would update' : 'updated';
+      const failed = r.failed > 0 ? `, ${r.failed} failed` : '';
+      const skipped = r.skipped > 0 ? `, ${r.skipped} preserved` : '';
+      console.log(`  ✅ ${label} - ${verb} ${r.updated}${failed}${skipped}`);
+    }
+  }
+
+  const totals: MatchStats = { total: 0, exact: 0, partial: 0, semantic: 0, ai: 0, override: 0, none: 0 };
+  for (const r of results) {
+    if (!r.stats) continue;
+    totals.total += r.stats.total;
+    totals.exact += r.stats.exact;
+    totals.partial += r.stats.partial;
+    totals.semantic += r.stats.semantic;
+    totals.override += r.stats.override;
+    totals.ai += r.stats.ai;
+    totals.none += r.stats.none;
+  }
+
+  if (totals.total > 0) {
+    displayStats(totals);
+  }
+
+  const updated = results.reduce((sum, r) => sum + r.updated, 0);
+  const failed = results.reduce((sum, r) => sum + r.failed, 0);
+  const cardErrors = results.filter(r => r.error).length;
+  console.log(`\n  ${dryRun ? '🧪 Would update' : '✅ Updated'}: ${updated} tracks`);
+  if (!dryRun) {
+    console.log(`  ❌ Failed tracks: ${failed}`);
+  }
+  console.log(`  💥 Failed cards: ${cardErrors}`);
+}
+
+async function resolveCardIds(options: ApplyOptions): Promise<string[]> {
+  const cardIds = [...options.playlists];
+
+  if (options.all) {
+    const cards = await listMyCards(options.bearer);
+    cardIds.push(...cards.map(card => card.cardId));
+  }
+
+  return Array.from(new Set(cardIds));
+}
+
+async function runApplyMode(options: ApplyOptions): Promise<void> {
+  const scope = options.all ? 'All cards' : `Playlist: ${options.playlists.join(', ')}`;
+  console.log(`🎯 Apply Mode - ${scope}`);
+  console.log(`${options.dryRun ? '🧪 DRY RUN MODE - No actual changes will be made' : '🚀 LIVE MODE - Changes will be applied'}`);
+  // The provider (and its API key) is only needed when a model tier is on
+  if (usesSemantic(options.policy)) {
+    try {
+      console.log(`🧠 SEMANTIC MATCHING - ${getProvider().embeddingModel} embeddings`);
+    } catch (error) {
+      // No key or provider: say so once here, the cards then match without the tier
+      console.log(`🧠 SEMANTIC MATCHING - skipping semantic tier: ${error instanceof Error ? error.message : error}`);
+      options.policy.tiers = options.policy.tiers.filter(tier => tier !== 'semantic');
+    }
+  }
+  if (usesAi(options.policy)) {
+    try {
+      const provider = getProvider();
+      console.log(`🤖 AI MATCHING - Using ${provider.name} (${provider.model}) for unmatched tracks`);
+    } catch (error) {
+      console.log(`🤖 AI MATCHING - skipping AI tier: ${error instanceof Error ? error.message : error}`);
+      options.policy.tiers = options.policy.tiers.filter(tier => tier !== 'ai');
+    }
+  }
+  if (options.interactive) {
+    console.log(`🧑‍⚖️  INTERACTIVE - Each match needs your approval`);
+  }
+  const overrideCount = loadOverrides().overrides.length;
+  if (overrideCount > 0) {
+    console.log(`📌 OVERRIDES - ${overrideCount} entries from ${CONFIG.OVERRIDES_FILE}`);
+  }
+  console.log(`📜 MATCHING POLICY`);
+  describePolicy(options.policy).forEach(line => console.log(`   ${line}`));
+  if (options.context) {
+    console.log(`🧭 CONTEXT - Generic tracks fall back to chapter and card titles`);
+  }
+  if (options.rotate) {
+    console.log(`🔄 ROTATION - Cycling through candidate icons for repeated keywords`);
+  }
+  console.log();
+
+  // Show icon mapping status
+  const language = options.language || 'english';
+  const mappingStats = getIconMappingStats(language);
+  const langDisplay = formatTextForDisplay(getLanguage(language).displayName, language);
+  console.log(`📚 Icon Mapping Status (${langDisplay}):`);
+  console.log(`  Available keywords: ${mappingStats.totalKeywords}`);
+  console.log(`  Mapped to icons: ${mappingStats.mappedKeywords}`);
+  console.log(`  Unmapped: ${mappingStats.unmappedKeywords.length}`);
+
+  if (mappingStats.mappedKeywords === 0) {
+    console.error('\n❌ No icon mappings available! Run plan mode first:');
+    console.error('   ts-node src/plan.ts --bearer $BEARER --language english');
+    process.exit(1);
+  }
+
+  console.log();
+
+  const cardIds = await resolveCardIds(options);
+  if (cardIds.length === 0) {
+    console.log('🤷 No cards to process.');
+    return;
+  }
+
+  const aiBudget: AiCallBudget = { remaining: options.policy.maxAiCalls ?? Infinity };
+  const results: CardApplyResult[] = [];
+  for (let i = 0; i < cardIds.length; i++) {
+    const cardId = cardIds[i];
+    if (cardIds.length > 1) {
+      console.log(`\n${'='.repeat(50)}\n[${i + 1}/${cardIds.length}] Card ${cardId}\n`);
+    }
+
+    // One card's failure must not stop the rest of the batch
+    try {
+      results.push(await applyToCard(options, cardId, language, aiBudget));
+    } catch (error) {
+      const message = describeYotoError(error);
+      console.error(`❌ Cannot process card ${cardId}: ${message}`);
+      results.push({ cardId, updated: 0, failed: 0, skipped: 0, error: message });
+
+      // An expired token fails every remaining card the same way
+      if (error instanceof YotoAuthError) {
+        for (const remaining of cardIds.slice(i + 1)) {
+          results.push({ cardId: remaining, updated: 0, failed: 0, skipped: 0, error: 'not attempted (authentication failed)' });
+        }
+        break;
+      }
+    }
+  }
+
+  if (cardIds.length > 1) {
+    displayBatchSummary(results, options.dryRun || false);
   }
 
   // Show unmapped keywords if any
@@ -197,51 +495,96 @@ async function runApplyMode(options: ApplyOptions): Promise<void> {
     console.log(`\n💡 Consider running plan mode for these unmapped keywords:`);
     console.log(`   ${mappingStats.unmappedKeywords.join(', ')}`);
   }
+
+  if (results.some(r => r.error || r.failed > 0)) {
+    process.exitCode = 1;
+  }
+}
+
+function readPlaylistsFile(filePath: string): string[] {
+  const content = fs.readFileSync(path.resolve(filePath), 'utf-8');
+  return content
+    .split('\n')
+    .map(line => line.replace(/#.*/, '').trim())
+    .filter(line => line);
 }
 
 function parseArgs(): ApplyOptions {
   const args = minimist(process.argv.slice(2));
 
-  if (!args.bearer) {
-    console.error('❌ --bearer token is required');
-    process.exit(1);
+  const playlists: string[] = [];
+  if (args.playlist) {
+    playlists.push(String(args.playlist));
   }
-
-  if (!args.playlist) {
-    console.error('❌ --playlist ID is required');
-    process.exit(1);
+  if (args.playlists) {
+    playlists.push(...String(args.playlists).split(',').map(id => id.trim()).filter(id => id));
+  }
+  if (args['playlists-file']) {
+    playlists.push(...readPlaylistsFile(args['playlists-file']));
   }
 
-  const language = (args.language || 'english') as 'english' | 'hebrew';
-  if (!['english', 'hebrew'].includes(language)) {
-    console.error('❌ --language must be "english" or "hebrew"');
+  if (playlists.length === 0 && !args.all) {
+    console.error('❌ --playlist, --playlists, --playlists-file or --all is required');
     process.exit(1);
   }
 
+  const language = parseLanguageArg(args.language);
+
+  const policy = parsePolicyArgs(args);
+
+  configureProvider(parseProviderArgs(args));
+
   return {
-    bearer: args.bearer,
-    playlist: args.playlist,
+    bearer: args.bearer || '',
+    playlists,
+    all: args.all || false,
     dryRun: args.dry || args['dry-run'] || false,
-    aiMatch: true, // Always enabled now
-    language
+    language,
+    rotate: args.rotate || false,
+    interactive: args.interactive || args.i || false,
+    policy,
+    context: args.context || false,
+    refreshAi: args['refresh-ai'] || false
   };
 }
 
 function showUsage(): void {
   console.log(`
-Usage: ts-node src/apply.ts --bearer <TOKEN> --playlist <CARD_ID> [options]
+Usage: ts-node src/apply.ts --playlist <CARD_ID> [--bearer <TOKEN>] [options]
+
+Authentication:
+  --bearer <TOKEN>        Yoto bearer token (default: stored login from \`npm run login\`)
 
-Required:
-  --bearer <TOKEN>        Yoto bearer token
+Cards (at least one):
   --playlist <CARD_ID>    Yoto playlist/card ID
+  --playlists <A,B,C>     Comma-separated card IDs
+  --playlists-file <FILE> File with one card ID per line (# comments allowed)
+  --all                   Every card in your library
 
 Options:
   --dry, --dry-run        Preview changes without applying them
-  --language <LANG>       Language for mappings: "english" or "hebrew" (default: english)
+  --language <LANG>       Language for mappings: ${listLanguages().join(', ')} (default: english)
+  --rotate                Cycle through candidate icons when a keyword repeats
+  --context               Match generic tracks ("Part 1") by their chapter or card title,
+                          and keep icons consistent within a chapter
+  -i, --interactive       Review each track and approve, change or skip its icon
+  --refresh-ai            Ask the AI again instead of reusing cached answers
+
+Matching policy:
+${POLICY_USAGE}
+
+${PROVIDER_USAGE}
 
 Examples:
   ts-node src/apply.ts --bearer $BEARER --playlist gkLcn --dry
   ts-node src/apply.ts --bearer $BEARER --playlist gkLcn --language hebrew
+  ts-node src/apply.ts --bearer $BEARER --playlist gkLcn --rotate
+  ts-node src/apply.ts --bearer $BEARER --playlist gkLcn --context --dry
+  ts-node src/apply.ts --bearer $BEARER --playlist gkLcn --interactive
+  ts-node src/apply.ts --bearer $BEARER --playlist gkLcn --overwrite=matched-better --dry
+  ts-node src/apply.ts --bearer $BEARER --playlists gkLcn,x7Yq2 --dry
+  ts-node src/apply.ts --bearer $BEARER --all --language hebrew
+  ts-node src/apply.ts --bearer $BEARER --playlist gkLcn --provider compatible --base-url http://localhost:11434/v1 --model llama3.1
   ts-node src/apply.ts --bearer $BEARER --playlist gkLcn
 
 Note: Run plan mode first to generate icon mappings:
@@ -258,9 +601,10 @@ async function main(): Promise<void> {
     }
 
     const options = parseArgs();
+    options.bearer = await resolveBearer(options.bearer || undefined);
     await runApplyMode(options);
   } catch (error) {
-    console.error('❌ Apply mode failed:', error);
+    console.error(`❌ Apply mode failed: ${describeYotoError(error)}`);
     process.exit(1);
   }
 }
@@ -0,0 +1,229 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import fetch from 'node-fetch';
+import { CONFIG } from './config';
+import { StoredCredentials } from './types';
+
+export class YotoLoginError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'YotoLoginError';
+  }
+}
+
+// Tokens replaced by a refresh during this process -> their replacement
+const supersededTokens = new Map<string, string>();
+
+async function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+export function getClientId(override?: string): string {
+  const clientId = override || process.env.YOTO_CLIENT_ID;
+  if (!clientId) {
+    throw new YotoLoginError('A Yoto OAuth client ID is required: pass --client-id or set YOTO_CLIENT_ID');
+  }
+  return clientId;
+}
+
+export function loadCredentials(): StoredCredentials | null {
+  try {
+    const content = fs.readFileSync(path.resolve(CONFIG.CREDENTIALS_FILE), 'utf-8');
+    return JSON.parse(content);
+  } catch (error) {
+    return null;
+  }
+}
+
+export function saveCredentials(credentials: StoredCredentials): string {
+  const filePath = path.resolve(CONFIG.CREDENTIALS_FILE);
+  const dir = path.dirname(filePath);
+
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  // Tokens grant full account access; keep them readable by the owner only
+  fs.writeFileSync(filePath, JSON.stringify(credentials, null, 2), { encoding: 'utf-8', mode: 0o600 });
+  return filePath;
+}
+
+async function postForm(url: string, form: Record<string, string>): Promise<{ status: number; body: any }> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded', 'Accept': 'application/json' },
+    body: new URLSearchParams(form).toString()
+  });
+
+  const text = await response.text();
+  let body: any = {};
+  try {
+    body = text ? JSON.parse(text) : {};
+  } catch (error) {
+    body = { error: 'invalid_response', error_description: text.slice(0, 200) };
+  }
+  return { status: response.status, body };
+}
+
+function toCredentials(body: any, clientId: string, previous?: StoredCredentials): StoredCredentials {
+  return {
+    clientId,
+    accessToken: body.access_token,
+    // Refresh responses may omit the refresh token when it is not rotated
+    refreshToken: body.refresh_token || previous?.refreshToken,
+    expiresAt: new Date(Date.now() + (body.expires_in || 3600) * 1000).toISOString()
+  };
+}
+
+export async function startDeviceAuthorization(clientId: string): Promise<{
+  deviceCode: string;
+  userCode: string;
+  verificationUri: string;
+  verificationUriComplete?: string;
+  expiresIn: number;
+  interval: number;
+}> {
+  const { status, body } = await postForm(`${CONFIG.YOTO_AUTH_BASE}/oauth/device/code`, {
+    client_id: clientId,
+    scope: CONFIG.YOTO_AUTH_SCOPE,
+    audience: CONFIG.YOTO_AUTH_AUDIENCE
+  });
+
+  if (status !== 200 || !body.device_code) {
+    throw new YotoLoginError(`Device authorization failed: ${body.error_description || body.error || status}`);
+  }
+
+  return {
+    deviceCode: body.device_code,
+    userCode: body.user_code,
+    verificationUri: body.verification_uri,
+    verificationUriComplete: body.verification_uri_complete,
+    expiresIn: body.expires_in || 900,
+    interval: body.interval || 5
+  };
+}
+
+/**
+ * Polls the token endpoint until the user approves the device code, backing
+ * off on `slow_down` as the device flow spec requires.
+ */
+export async function pollForToken(
+  clientId: string,
+  deviceCode: string,
+  interval: number,
+  expiresIn: number
+): Promise<StoredCredentials> {
+  const deadline = Date.now() + expiresIn * 1000;
+  let intervalMs = interval * 1000;
+
+  while (Date.now() < deadline) {
+    await sleep(intervalMs);
+
+    const { status, body } = await postForm(`${CONFIG.YOTO_AUTH_BASE}/oauth/token`, {
+      grant_type: 'urn:ietf:params:oauth:grant-type:device_code',
+      device_code: deviceCode,
+      client_id: clientId
+    });
+
+    if (status === 200 && body.access_token) {
+      return toCredentials(body, clientId);
+    }
+
+    if (body.error === 'authorization_pending') continue;
+    if (body.error === 'slow_down') {
+      intervalMs += 5000;
+      continue;
+    }
+    if (body.error === 'access_denied') {
+      throw new YotoLoginError('Login was denied in the browser');
+    }
+    if (body.error === 'expired_token') {
+      throw new YotoLoginError('The login code expired - run login again');
+    }
+    throw new YotoLoginError(`Token request failed: ${body.error_description || body.error || status}`);
+  }
+
+  throw new YotoLoginError('The login code expired - run login again');
+}
+
+export async function refreshCredentials(credentials: StoredCredentials): Promise<StoredCredentials> {
+  if (!credentials.refreshToken) {
+    throw new YotoLoginError('No refresh token stored - run `npm run login` again');
+  }
+
+  const { status, body } = await postForm(`${CONFIG.YOTO_AUTH_BASE}/oauth/token`, {
+    grant_type: 'refresh_token',
+    client_id: credentials.clientId,
+    refresh_token: credentials.refreshToken
+  });
+
+  if (status !== 200 || !body.access_token) {
+    throw new YotoLoginError(`Token refresh failed: ${body.error_description || body.error || status} - run \`npm run login\` again`);
+  }
+
+  const refreshed = toCredentials(body, credentials.clientId, credentials);
+  saveCredentials(refreshed);
+  supersededTokens.set(credentials.accessToken, refreshed.accessToken);
+  return refreshed;
+}
+
+/**
+ * Bearer token for a command: an explicit --bearer wins, otherwise the stored
+ * login is used and refreshed first if it is about to expire.
+ */
+export async function resolveBearer(override?: string): Promise<string> {
+  if (override) {
+    return override;
+  }
+
+  const credentials = loadCredentials();
+  if (!credentials) {
+    throw new YotoLoginError('Not logged in: run `npm run login` or pass --bearer <TOKEN>');
+  }
+
+  const expiresAt = Date.parse(credentials.expiresAt);
+  if (isNaN(expiresAt) || expiresAt - Date.now() < CONFIG.TOKEN_REFRESH_MARGIN_MS) {
+    console.log('🔑 Refreshing Yoto access token...');
+    return (await refreshCredentials(credentials)).accessToken;
+  }
+
+  return credentials.accessToken;
+}
+
+// Latest token for one that may have been refreshed since the caller got it
+export function currentBearer(token: string): string {
+  let current = token;
+  while (supersededTokens.has(current)) {
+    current = supersededTokens.get(current)!;
+  }
+  return current;
+}
+
+/**
+ * Called after a 401. Returns a fresh token when the rejected one came from
+ * the stored login, or null for an explicit --bearer we cannot refresh.
+ */
+export async function refreshBearer(rejectedToken: string): Promise<string | null> {
+  const credentials = loadCredentials();
+  if (!credentials) {
+    return null;
+  }
+
+  const isStored = credentials.accessToken === rejectedToken || supersededTokens.has(rejectedToken);
+  if (!isStored) {
+    return null;
+  }
+
+  // Another call may already have refreshed it
+  if (credentials.accessToken !== rejectedToken) {
+    return credentials.accessToken;
+  }
+
+  try {
+    console.log('🔑 Access token rejected - refreshing...');
+    return (await refreshCredentials(credentials)).accessToken;
+  } catch (error) {
+    console.warn(`⚠️  ${error instanceof Error ? error.message : error}`);
+    return null;
+  }
+}
@@ -1,55 +1,87 @@
-import { LanguagePrompts } from './types';
+import { Language } from './types';
 
 export const CONFIG = {
   // File paths
   ICON_IDS_FILE: './icon_ids.txt',
-  YOTO_ICONS_FILE: './synonyms/english.json',
+  LANGUAGES_DIR: './languages',
+  PROMPTS_FILE: './prompts/icons.json', // Image prompt styles and per-keyword concepts
+  SNAPSHOTS_DIR: './data/snapshots',
+  ICON_CACHE_DIR: './data/icon-cache',
+  AI_MATCH_CACHE_FILE: './data/ai_match_cache.json',
+  MATCHING_POLICY_FILE: './matching-policy.json', // Optional; defaults apply without it
+  OVERRIDES_FILE: './overrides.json',              // Optional; pinned icons per title or pattern
+  GENERATED_ICONS_DIR: './generated-icons',
+  GENERATED_MANIFEST_FILE: './generated-icons/manifest.json', // Generated variants and review decisions
+  GALLERY_FILE: './generated-icons/gallery.html',
+  REVIEW_DECISIONS_FILE: './generated-icons/decisions.json',  // Where to save the gallery's download
+  CREDENTIALS_FILE: process.env.YOTO_CREDENTIALS_FILE || './.yoto-credentials.json',
 
   // API endpoints
   YOTO_ICON_URL: 'https://media-secure-v2.api.yotoplay.com/icons',
-  YOTO_API_BASE: 'https://api.yotoplay.com',
+  // Overridable so the tools can run against a local mock server
+  YOTO_API_BASE: process.env.YOTO_API_URL || 'https://api.yotoplay.com',
+  YOTO_AUTH_BASE: process.env.YOTO_AUTH_URL || 'https://login.yotoplay.com',
+  YOTO_AUTH_AUDIENCE: 'https://api.yotoplay.com',
+  YOTO_AUTH_SCOPE: 'offline_access',
+  TOKEN_REFRESH_MARGIN_MS: 60000, // Refresh stored tokens this close to expiry
 
-  // OpenAI
-  OPENAI_MODEL: 'gpt-4o-mini',
+  // LLM provider (see llm.ts); flags override these
+  LLM_PROVIDER: process.env.LLM_PROVIDER || 'openai',
+  LLM_BASE_URL: process.env.LLM_BASE_URL || '',
+  OPENAI_MODEL: process.env.LLM_MODEL || 'gpt-4o-mini',
+  IMAGE_MODEL: process.env.LLM_IMAGE_MODEL || 'dall-e-3',
+  EMBEDDING_MODEL: process.env.LLM_EMBEDDING_MODEL || 'text-embedding-3-small',
 
   // Rate limiting
   VISION_DELAY_MS: 200, // Delay between Vision API calls
-  YOTO_DELAY_MS: 100,   // Delay between Yoto API calls
+  YOTO_DELAY_MS: 100,   // Minimum gap between Yoto API calls
+
+  // Yoto HTTP retries
+  YOTO_MAX_RETRIES: 4,
+  YOTO_RETRY_BASE_MS: 500,   // First backoff step, doubled per attempt
+  YOTO_RETRY_MAX_MS: 30000,  // Backoff ceiling
+  YOTO_TIMEOUT_MS: 30000,    // Per-request timeout
 
   // Processing
   DEFAULT_BATCH_SIZE: 10,
+  AI_MATCH_BATCH_SIZE: 20,     // Track titles per AI matching request
+  AI_MATCH_KEYWORD_CHUNK: 400, // Keywords per AI matching request; larger vocabularies are split
+  EMBEDDING_BATCH_SIZE: 100,   // Texts per embedding request
+  SEMANTIC_THRESHOLD: 0.45,    // Minimum cosine similarity for a semantic match
+  DUPLICATE_THRESHOLD: 0.9, // Fingerprint similarity at which two icons count as the same picture
+  IMAGE_VARIANTS: 3,        // Images generated per keyword, to pick from in the gallery
+  PALETTE_COLORS: 8,        // Catalog colours named by the "yoto" prompt style
+
+  // Pixel-art post-processing of generated images (see pixelArt.ts)
+  PIXEL_ART_SIZE: 16,
+  PIXEL_ART_COLORS: 12,                // Palette size of a finished icon
+  PIXEL_ART_BACKGROUND_TOLERANCE: 48,  // RGB distance from the border colours still counted as background
+  PIXEL_ART_MARGIN: 0,                 // Transparent pixels kept around the subject
+  PIXEL_ART_DETAIL_DIVISOR: 200,       // Detail radius is 1/200 of the image, so strokes thinner than ~1/100 count as background
+  PIXEL_ART_PREVIEW_SCALE: 8,          // Preview sheet zoom
+
+  // Icons Yoto assigns to new MYO tracks; anything else counts as user-chosen
+  DEFAULT_ICON_IDS: ['aUm9i3ex3qqAMYBv-i-O-pYMKuMJGICtR3Vhf289u2Q'],
 } as const;
 
-export function getYotoIconIdsFile(language: 'english' | 'hebrew'): string {
+export function getYotoIconIdsFile(language: Language): string {
   return `./data/yoto_icon_ids_${language}.json`;
 }
 
-export const LANGUAGE_PROMPTS: LanguagePrompts = {
-  english: "Describe this icon in one short English word (e.g. 'dog', 'moon', 'cake'). Return only the word, no explanation.",
-  hebrew: "תאר את האייקון הזה במילה עברית קצרה אחת (לדוגמה: 'כלב', 'ירח', 'עוגה'). החזר רק את המילה, ללא הסבר."
-};
-
-export const RTL_LANGUAGES = {
-  english: false,
-  hebrew: true
-} as const;
-
-export function isRtlLanguage(language: 'english' | 'hebrew'): boolean {
-  return RTL_LANGUAGES[language];
+export function getOrphanLabelsFile(language: Language): string {
+  return `./data/orphan_labels_${language}.json`;
 }
 
-export function formatTextForDisplay(text: string, language: 'english' | 'hebrew', disableRtl: boolean = true): string {
-  // Terminal RTL support is poor, so disable by default for better readability
-  if (disableRtl) {
-    return text;
-  }
+export function getPlanStateFile(language: Language): string {
+  return `./data/plan_state_${language}.json`;
+}
 
-  // Legacy RTL formatting (if ever needed)
-  if (isRtlLanguage(language)) {
-    return `\u200F${text}`;
-  }
+export function getEmbeddingIndexFile(language: Language): string {
+  return `./data/embeddings_${language}.json`;
+}
 
-  return text;
+export function getMissingIconsReportFile(language: Language): string {
+  return `./data/missing_icons_${language}.json`;
 }
 
 export function getOpenAIKey(): string {
@@ -0,0 +1,202 @@
+import { getLanguage } from './languages';
+import { getMatcher, IconMatcher } from './matchIcon';
+import { RankedCandidate, tokenize } from './ranking';
+import { Language, MatchResult, MatchSource, YotoPlaylist, YotoTrack } from './types';
+
+const CANDIDATES_PER_TRACK = 5; // Own-title candidates that can be swapped for a context keyword
+const MIN_CHAPTER_VOTES = 2;    // Tracks that must agree before their keyword speaks for the chapter
+const WEAK_RELEVANCE = 50;      // Below this an own match is a guess (substring) the chapter can outvote
+
+interface ContextKeyword {
+  keyword: string;
+  source: MatchSource;
+  reasons: string[];
+  score: number;     // Of the weakest match the keyword came from, so policy thresholds still apply
+  relevance: number;
+}
+
+// The weakest of the matches behind an inherited keyword
+function weakest(matches: RankedCandidate[]): { score: number; relevance: number } {
+  return {
+    score: Math.min(...matches.map(match => match.score)),
+    relevance: Math.min(...matches.map(match => match.relevance))
+  };
+}
+
+// Best keyword for a title, only when it matched a whole word
+function strongMatch(matcher: IconMatcher, title: string | undefined): RankedCandidate | null {
+  if (!title) return null;
+  const [best] = matcher.rank(title, 1);
+  return best && best.wholeWord ? best : null;
+}
+
+// "Part 1", "Chapter 3", "Intro": nothing but generic words and numbers
+function isGenericTitle(matcher: IconMatcher, title: string): boolean {
+  const generic = new Set(getLanguage(matcher.language).genericWords.map(word => matcher.normalizer.normalize(word)));
+  return tokenize(matcher.normalizer.normalize(title)).every(token => generic.has(token));
+}
+
+// Tracks without a chapter key are chapters themselves and count as one group
+function sameChapter(a: YotoTrack, b: YotoTrack): boolean {
+  return a.chapterKey === b.chapterKey;
+}
+
+function chapterKeyword(
+  matcher: IconMatcher,
+  tracks: YotoTrack[],
+  strong: Array<RankedCandidate | null>,
+  chapterKey: string
+): ContextKeyword | null {
+  const members = tracks.map((track, i) => ({ track, match: strong[i] })).filter(m => m.track.chapterKey === chapterKey);
+  const chapterTitle = members[0].track.chapterTitle;
+
+  const titled = strongMatch(matcher, chapterTitle);
+  if (titled) {
+    return { keyword: titled.keyword, source: 'chapter', reasons: [`chapter "${chapterTitle}"`, ...titled.reasons], ...weakest([titled]) };
+  }
+
+  // No telling chapter title: use the keyword most of its tracks agree on
+  const votes = new Map<string, number>();
+  for (const { match } of members) {
+    if (match) votes.set(match.keyword, (votes.get(match.keyword) || 0) + 1);
+  }
+  const ranked = Array.from(votes.entries()).sort((a, b) => b[1] - a[1]);
+  if (ranked.length === 0 || ranked[0][1] < MIN_CHAPTER_VOTES || ranked[1]?.[1] === ranked[0][1]) {
+    return null;
+  }
+
+  const [keyword, count] = ranked[0];
+  const voters = members.map(m => m.match).filter((match): match is RankedCandidate => match?.keyword === keyword);
+  return {
+    keyword,
+    source: 'chapter',
+    reasons: [`${count} of ${members.length} tracks in the chapter matched ${keyword}`],
+    ...weakest(voters)
+  };
+}
+
+/**
+ * Matches a whole playlist using the titles around each track. A track's
+ * own whole-word match always wins. Otherwise the keyword comes from the
+ * chapter title, the chapter's majority keyword, both neighbours, and
+ * finally the card title. A weak own match (a substring, or any match for
+ * a title like "Part 1") gives way to the chapter or its neighbours, unless
+ * one of its runners-up agrees with them. Inherited keywords get one icon per chapter, even with rotation.
+ */
+export function matchPlaylistInContext(
+  playlist: YotoPlaylist,
+  language: Language = 'english',
+  rotation?: Map<string, number>
+): MatchResult[] {
+  const matcher = getMatcher(language);
+  const tracks = playlist.tracks;
+  const own = tracks.map(track => matcher.rank(track.title, CANDIDATES_PER_TRACK));
+  const strong = own.map(candidates => (candidates[0]?.wholeWord ? candidates[0] : null));
+
+  const cardMatch = strongMatch(matcher, playlist.title);
+  const card: ContextKeyword | null = cardMatch
+    ? { keyword: cardMatch.keyword, source: 'card', reasons: [`card "${playlist.title}"`, ...cardMatch.reasons], ...weakest([cardMatch]) }
+    : null;
+
+  const chapters = new Map<string, ContextKeyword | null>();
+  const chapterContext = (track: YotoTrack): ContextKeyword | null => {
+    if (!track.chapterKey) return null;
+    if (!chapters.has(track.chapterKey)) {
+      chapters.set(track.chapterKey, chapterKeyword(matcher, tracks, strong, track.chapterKey));
+    }
+    return chapters.get(track.chapterKey)!;
+  };
+
+  const inheritedIcons = new Map<string, string | null>();
+  const inheritedIcon = (track: YotoTrack, context: ContextKeyword): string | null => {
+    const key = `${context.source === 'card' ? '' : track.chapterKey || track.id}:${context.keyword}`;
+    if (!inheritedIcons.has(key)) {
+      inheritedIcons.set(key, matcher.selectIcon(context.keyword, rotation));
+    }
+    return inheritedIcons.get(key)!;
+  };
+
+  return tracks.map((track, i) => {
+    const searchTerms = matcher.extractKeywords(track.title);
+    const best = own[i][0];
+
+    if (best && best.wholeWord) {
+      return {
+        track,
+        keyword: best.keyword,
+        iconId: matcher.selectIcon(best.keyword, rotation),
+        confidence: 'exact',
+        searchTerms,
+        explanation: best.reasons,
+        source: 'track',
+        score: best.score,
+        relevance: best.relevance
+      };
+    }
+
+    const neighbours = [tracks[i - 1], tracks[i + 1]]
+      .map((neighbour, side) => (neighbour && sameChapter(track, neighbour) ? strong[i - 1 + side * 2] : null));
+    const bothNeighbours: ContextKeyword | null = neighbours[0] && neighbours[1] && neighbours[0].keyword === neighbours[1].keyword
+      ? {
+        keyword: neighbours[0].keyword,
+        source: 'neighbours',
+        reasons: [`both neighbouring tracks matched ${neighbours[0].keyword}`],
+        ...weakest([neighbours[0], neighbours[1]])
+      }
+      : null;
+    const chapter = chapterContext(track);
+
+    if (best && best.relevance >= WEAK_RELEVANCE && !isGenericTitle(matcher, track.title)) {
+      return {
+        track,
+        keyword: best.keyword,
+        iconId: matcher.selectIcon(best.keyword, rotation),
+        confidence: 'partial',
+        searchTerms,
+        explanation: best.reasons,
+        source: 'track',
+        score: best.score,
+        relevance: best.relevance
+      };
+    }
+
+    if (best) {
+      // A runner-up that fits the chapter or a neighbour beats an unrelated top guess
+      const nearby = [chapter?.keyword, ...neighbours.map(n => n?.keyword), card?.keyword];
+      const agreeing = own[i].find(candidate => nearby.includes(candidate.keyword));
+      const chosen = agreeing || best;
+      const override = agreeing ? null : chapter || bothNeighbours;
+
+      if (!override) {
+        return {
+          track,
+          keyword: chosen.keyword,
+          iconId: matcher.selectIcon(chosen.keyword, rotation),
+          confidence: 'partial',
+          searchTerms,
+          explanation: agreeing && agreeing !== best ? [...chosen.reasons, `fits the surrounding tracks`] : chosen.reasons,
+          source: 'track',
+          score: chosen.score,
+          relevance: chosen.relevance
+        };
+      }
+    }
+
+    const context = chapter || bothNeighbours || (best ? null : card);
+    if (!context) {
+      return { track, keyword: null, iconId: null, confidence: 'none', searchTerms, source: 'track' };
+    }
+
+    return {
+      track,
+      keyword: context.keyword,
+      iconId: inheritedIcon(track, context),
+      confidence: 'partial',
+      searchTerms,
+      explanation: [`from ${context.reasons[0]}`, ...context.reasons.slice(1)],
+      source: context.source,
+      score: context.score,
+      relevance: context.relevance
+    };
+  });
+}
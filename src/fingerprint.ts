@@ -0,0 +1,116 @@
+import { RgbaImage } from './png';
+import { IconFingerprint, IconSimilarity } from './types';
+
+// Flattens transparency onto white, as icons are shown on a light background
+function toGray(image: RgbaImage): Float64Array {
+  const gray = new Float64Array(image.width * image.height);
+  for (let i = 0; i < gray.length; i++) {
+    const alpha = image.data[i * 4 + 3] / 255;
+    const luma = 0.299 * image.data[i * 4] + 0.587 * image.data[i * 4 + 1] + 0.114 * image.data[i * 4 + 2];
+    gray[i] = luma * alpha + 255 * (1 - alpha);
+  }
+  return gray;
+}
+
+// Box-filter downscale, so a 1024px render and a 16px icon land on the same grid
+function resize(gray: Float64Array, width: number, height: number, toWidth: number, toHeight: number): Float64Array {
+  const out = new Float64Array(toWidth * toHeight);
+
+  for (let ty = 0; ty < toHeight; ty++) {
+    const y0 = Math.floor((ty * height) / toHeight);
+    const y1 = Math.max(y0 + 1, Math.floor(((ty + 1) * height) / toHeight));
+
+    for (let tx = 0; tx < toWidth; tx++) {
+      const x0 = Math.floor((tx * width) / toWidth);
+      const x1 = Math.max(x0 + 1, Math.floor(((tx + 1) * width) / toWidth));
+
+      let sum = 0;
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) {
+          sum += gray[y * width + x];
+        }
+      }
+      out[ty * toWidth + tx] = sum / ((y1 - y0) * (x1 - x0));
+    }
+  }
+
+  return out;
+}
+
+function bitsToHex(bits: boolean[]): string {
+  let hex = '';
+  for (let i = 0; i < bits.length; i += 4) {
+    hex += ((+bits[i] << 3) | (+bits[i + 1] << 2) | (+bits[i + 2] << 1) | +bits[i + 3]).toString(16);
+  }
+  return hex;
+}
+
+function averageHash(gray: Float64Array, width: number, height: number): string {
+  const small = resize(gray, width, height, 8, 8);
+  const mean = small.reduce((sum, value) => sum + value, 0) / small.length;
+  return bitsToHex(Array.from(small, value => value > mean));
+}
+
+function differenceHash(gray: Float64Array, width: number, height: number): string {
+  const small = resize(gray, width, height, 9, 8);
+  const bits: boolean[] = [];
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < 8; x++) {
+      bits.push(small[y * 9 + x] > small[y * 9 + x + 1]);
+    }
+  }
+  return bitsToHex(bits);
+}
+
+function colorHistogram(image: RgbaImage): number[] {
+  const histogram = new Array(64).fill(0);
+  let opaque = 0;
+
+  for (let i = 0; i < image.data.length; i += 4) {
+    if (image.data[i + 3] < 128) continue;
+    histogram[((image.data[i] >> 6) << 4) | ((image.data[i + 1] >> 6) << 2) | (image.data[i + 2] >> 6)]++;
+    opaque++;
+  }
+
+  return histogram.map(count => (opaque ? Math.round((count / opaque) * 10000) / 10000 : 0));
+}
+
+export function computeFingerprint(image: RgbaImage): IconFingerprint {
+  const gray = toGray(image);
+  return {
+    aHash: averageHash(gray, image.width, image.height),
+    dHash: differenceHash(gray, image.width, image.height),
+    histogram: colorHistogram(image)
+  };
+}
+
+export function hammingDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+}
+
+/**
+ * Shape counts for more than color: the two hashes give 70% of the score,
+ * histogram intersection the remaining 30%.
+ */
+export function compareFingerprints(iconId: string, a: IconFingerprint, b: IconFingerprint): IconSimilarity {
+  const aHashDistance = hammingDistance(a.aHash, b.aHash);
+  const dHashDistance = hammingDistance(a.dHash, b.dHash);
+  const colorOverlap = a.histogram.reduce((sum, value, i) => sum + Math.min(value, b.histogram[i] || 0), 0);
+  const shape = 1 - (aHashDistance + dHashDistance) / 128;
+
+  return {
+    iconId,
+    score: Math.round((0.7 * shape + 0.3 * colorOverlap) * 1000) / 1000,
+    aHashDistance,
+    dHashDistance,
+    colorOverlap: Math.round(colorOverlap * 1000) / 1000
+  };
+}
@@ -0,0 +1,212 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CONFIG } from './config';
+import {
+  GeneratedIconEntry,
+  GeneratedIconsManifest,
+  IconReviewDecision,
+  Language,
+  ReviewDecisionsFile
+} from './types';
+
+const DECISIONS: IconReviewDecision[] = ['pending', 'approved', 'rejected', 'regenerate'];
+
+export function loadGeneratedManifest(): GeneratedIconsManifest {
+  const filePath = path.resolve(CONFIG.GENERATED_MANIFEST_FILE);
+  if (!fs.existsSync(filePath)) {
+    return { version: 1, icons: [] };
+  }
+  return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+}
+
+export function saveGeneratedManifest(manifest: GeneratedIconsManifest): string {
+  const filePath = path.resolve(CONFIG.GENERATED_MANIFEST_FILE);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(manifest, null, 2) + '\n', 'utf-8');
+  return filePath;
+}
+
+export function findGeneratedEntry(
+  manifest: GeneratedIconsManifest,
+  language: Language,
+  keyword: string
+): GeneratedIconEntry | undefined {
+  return manifest.icons.find(entry => entry.language === language && entry.keyword === keyword);
+}
+
+// A new generation replaces the keyword's old variants and starts a fresh review
+export function recordGeneration(manifest: GeneratedIconsManifest, entry: GeneratedIconEntry): void {
+  manifest.icons = manifest.icons.filter(e => !(e.language === entry.language && e.keyword === entry.keyword));
+  manifest.icons.push(entry);
+}
+
+/**
+ * Copies gallery decisions into the manifest. A decision only counts when
+ * it is newer than both the entry's last decision and its last generation,
+ * so an old download cannot undo a later review or a regeneration. Icons
+ * already uploaded keep their decision. Returns how many entries changed.
+ */
+export function importDecisions(manifest: GeneratedIconsManifest, file: ReviewDecisionsFile): number {
+  let applied = 0;
+
+  for (const decision of file.decisions || []) {
+    const entry = findGeneratedEntry(manifest, decision.language, decision.keyword);
+    if (!entry || !decision.decidedAt || !DECISIONS.includes(decision.decision)) continue;
+    if (decision.decidedAt < entry.generatedAt || (entry.decidedAt && decision.decidedAt <= entry.decidedAt)) continue;
+
+    if (entry.uploadedIconId) {
+      console.log(`  ⚠️  "${entry.keyword}" is already uploaded as ${entry.uploadedIconId} - decision ignored`);
+      continue;
+    }
+    if (decision.decision === 'approved'
+      && !(Number.isInteger(decision.approvedVariant) && entry.variants[decision.approvedVariant!]?.icon)) {
+      console.log(`  ⚠️  "${entry.keyword}": approved variant ${decision.approvedVariant} has no 16x16 icon - decision ignored`);
+      continue;
+    }
+
+    entry.decision = decision.decision;
+    entry.approvedVariant = decision.decision === 'approved' ? decision.approvedVariant : undefined;
+    entry.decidedAt = decision.decidedAt;
+    applied++;
+  }
+
+  return applied;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Cache-busted so a regenerated variant is not shown from the browser cache
+function imageSrc(file: string, entry: GeneratedIconEntry): string {
+  return escapeHtml(`${encodeURI(file)}?v=${encodeURIComponent(entry.generatedAt)}`);
+}
+
+function renderEntry(entry: GeneratedIconEntry, index: number): string {
+  const current = entry.decision === 'approved' ? `v${entry.approvedVariant}` : entry.decision;
+  const option = (value: string, label: string, disabled = false) =>
+    `<label class="choice"><input type="radio" name="d${index}" value="${value}"${value === current ? ' checked' : ''}` +
+    `${disabled || entry.uploadedIconId ? ' disabled' : ''}> ${label}</label>`;
+
+  const variants = entry.variants.map((variant, v) => `
+      <figure>
+        <img class="raw" src="${imageSrc(variant.raw, entry)}" alt="">
+        ${variant.icon ? `<img class="icon" src="${imageSrc(variant.icon, entry)}" alt="">` : '<div class="icon missing">no 16x16</div>'}
+        <figcaption>${option(`v${v}`, `Approve #${v + 1}`, !variant.icon)}</figcaption>
+      </figure>`).join('');
+
+  return `
+  <section class="entry ${entry.decision}">
+    <h2>${escapeHtml(entry.keyword)} <small>${escapeHtml(entry.language)}${entry.uploadedIconId ? ` · uploaded as ${escapeHtml(entry.uploadedIconId)}` : ''}</small></h2>
+    <p class="prompt">${escapeHtml(entry.prompt)} <small>(${entry.style ? `${escapeHtml(entry.style)}, ` : ''}${escapeHtml(entry.model)}, ${escapeHtml(entry.generatedAt)})</small></p>
+    <div class="variants">${variants}
+    </div>
+    <div class="choices">${option('rejected', 'Reject all')}${option('regenerate', 'Regenerate')}${option('pending', 'Undecided')}</div>
+  </section>`;
+}
+
+/**
+ * A self-contained review page: every generated keyword with its prompt,
+ * the raw variants and their 16x16 versions. Browsers cannot write local
+ * files, so "Save decisions" downloads decisions.json for the next
+ * `generate` run to pick up.
+ */
+export function buildGalleryHtml(manifest: GeneratedIconsManifest): string {
+  const entries = manifest.icons;
+  const state = entries.map(({ keyword, language, decision, approvedVariant, decidedAt }) =>
+    ({ keyword, language, decision, approvedVariant, decidedAt }));
+  // Keeps "</script>" in a keyword or prompt from ending the script block
+  const stateJson = JSON.stringify(state).replace(/</g, '\\u003c');
+  const decisionsFile = path.basename(CONFIG.REVIEW_DECISIONS_FILE);
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Generated icons - review</title>
+<style>
+  body { font-family: system-ui, sans-serif; margin: 0 0 5em; background: #f4f4f4; color: #222; }
+  header, .entry { max-width: 1100px; margin: 1em auto; padding: 0 1em; }
+  .entry { background: #fff; border-radius: 8px; padding: 1em; border-left: 6px solid #bbb; }
+  .entry.approved { border-color: #3a3; } .entry.rejected { border-color: #c33; } .entry.regenerate { border-color: #e90; }
+  h2 small, .prompt small { color: #888; font-weight: normal; }
+  .prompt { font-size: 0.9em; color: #555; }
+  .variants { display: flex; flex-wrap: wrap; gap: 1em; }
+  figure { margin: 0; text-align: center; }
+  img.raw { width: 192px; height: 192px; object-fit: contain; background: #ddd; }
+  img.icon, .icon.missing { display: block; width: 128px; height: 128px; margin: 0.5em auto; image-rendering: pixelated;
+    background: repeating-conic-gradient(#ccc 0 25%, #eee 0 50%) 0 0 / 16px 16px; }
+  .icon.missing { line-height: 128px; color: #c33; }
+  .choices { margin-top: 0.8em; display: flex; gap: 1.5em; }
+  footer { position: fixed; bottom: 0; left: 0; right: 0; background: #222; color: #fff; padding: 0.8em; text-align: center; }
+  footer button { font-size: 1em; padding: 0.3em 1em; margin-right: 1em; }
+</style>
+</head>
+<body>
+<header>
+  <h1>Generated icons</h1>
+  <p>Approve one variant per keyword, reject them all, or ask for a regeneration. Then save the decisions and put
+  <code>${decisionsFile}</code> in <code>generated-icons/</code> (or pass it with <code>--decisions</code>).</p>
+</header>
+${entries.length > 0 ? entries.map(renderEntry).join('\n') : '<p class="entry">Nothing generated yet.</p>'}
+<footer><button id="save">Save decisions</button><span id="summary"></span></footer>
+<script id="state" type="application/json">${stateJson}</script>
+<script>
+  var state = JSON.parse(document.getElementById('state').textContent);
+
+  function read() {
+    var counts = { pending: 0, approved: 0, rejected: 0, regenerate: 0 };
+    state.forEach(function (entry, i) {
+      var checked = document.querySelector('input[name="d' + i + '"]:checked');
+      var value = checked ? checked.value : 'pending';
+      counts[value.charAt(0) === 'v' ? 'approved' : value]++;
+    });
+    document.getElementById('summary').textContent = counts.approved + ' approved, ' + counts.rejected + ' rejected, ' +
+      counts.regenerate + ' to regenerate, ' + counts.pending + ' undecided';
+  }
+
+  document.addEventListener('change', function (event) {
+    var match = /^d(\\d+)$/.exec(event.target.name || '');
+    if (!match) return;
+    var entry = state[Number(match[1])];
+    var value = event.target.value;
+    entry.decision = value.charAt(0) === 'v' ? 'approved' : value;
+    entry.approvedVariant = value.charAt(0) === 'v' ? Number(value.slice(1)) : undefined;
+    entry.decidedAt = new Date().toISOString();
+    event.target.closest('.entry').className = 'entry ' + entry.decision;
+    read();
+  });
+
+  document.getElementById('save').addEventListener('click', function () {
+    var decisions = state.filter(function (entry) { return entry.decidedAt; });
+    var blob = new Blob([JSON.stringify({ version: 1, decisions: decisions }, null, 2)], { type: 'application/json' });
+    var link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = '${decisionsFile}';
+    link.click();
+  });
+
+  read();
+</script>
+</body>
+</html>
+`;
+}
+
+export function writeGallery(manifest: GeneratedIconsManifest): string {
+  const filePath = path.resolve(CONFIG.GALLERY_FILE);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, buildGalleryHtml(manifest), 'utf-8');
+  return filePath;
+}
+
+// The gallery's download, or null when there is none yet
+export function loadReviewDecisions(filePath: string = CONFIG.REVIEW_DECISIONS_FILE): ReviewDecisionsFile | null {
+  const resolved = path.resolve(filePath);
+  if (!fs.existsSync(resolved)) return null;
+  return JSON.parse(fs.readFileSync(resolved, 'utf-8'));
+}
@@ -1,92 +1,284 @@
 #!/usr/bin/env node
 
 import minimist from 'minimist';
-import OpenAI from 'openai';
+import * as crypto from 'crypto';
 import * as fs from 'fs';
 import * as path from 'path';
-import { getIconMappingStats } from './matchIcon';
+import { CONFIG, getYotoIconIdsFile } from './config';
+import { getLanguage, listLanguages, parseLanguageArg } from './languages';
+import { getIconMappingStats, resolveKeyword } from './matchIcon';
+import { loadIconCacheIndex, findSimilarIcons, fingerprintPng } from './iconCache';
+import { addIconCandidate, createIconStore, loadIconStore, saveIconStore } from './mappings';
+import { resolveBearer } from './auth';
+import { uploadIcon } from './yoto';
+import { describeYotoError, YotoAuthError } from './yotoHttp';
+import { configureProvider, getProvider, parseProviderArgs, PROVIDER_USAGE } from './llm';
+import { decodePng, encodePng, RgbaImage } from './png';
+import { buildPreviewSheet, toPixelArt } from './pixelArt';
+import { buildIconPrompt, listStyles } from './prompts';
+import {
+  findGeneratedEntry,
+  importDecisions,
+  loadGeneratedManifest,
+  loadReviewDecisions,
+  recordGeneration,
+  saveGeneratedManifest,
+  writeGallery
+} from './gallery';
+import {
+  GeneratedIconEntry,
+  GeneratedIconsManifest,
+  GeneratedImageSidecar,
+  GeneratedVariant,
+  IconReviewDecision,
+  Language
+} from './types';
+
+const GENERATED_DIR = CONFIG.GENERATED_ICONS_DIR;
+const PIXEL_ART_SUFFIX = '_16x16.png';
+const PREVIEW_SHEET = 'preview_16x16.png';
 
 interface GenerateOptions {
-  language: 'english' | 'hebrew';
+  language: Language;
   keywords?: string[];
   limit?: number;
   dryRun: boolean;
+  variants: number;
+  style?: string;      // Style from prompts/icons.json (default: the file's defaultStyle)
+  seed?: number;       // First variant's seed; later variants count up from it
+  regenerate: boolean; // Generate the keywords reviewed as "regenerate"
+  gallery: boolean;    // Only take in decisions and rebuild the gallery
+  decisions?: string;  // Gallery download to read instead of generated-icons/decisions.json
+  process?: string[];  // Re-run the pixel-art step on these existing images instead of generating
+  outDir?: string;
+  upload: boolean;     // Upload approved icons (with --process: every image named after a keyword)
+  bearer: string;
 }
 
-// Get OpenAI API key from environment
-function getOpenAIKey(): string {
-  const key = process.env.OPENAI_API_KEY;
-  if (!key) {
-    throw new Error('OPENAI_API_KEY environment variable is required');
+async function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+async function generateIconImage(keyword: string, prompt: string, seed: number | null): Promise<Buffer | null> {
+  try {
+    const provider = getProvider();
+    console.log(`🎨 Generating "${keyword}" with ${provider.imageModel} (${provider.name})${seed !== null ? `, seed ${seed}` : ''}...`);
+
+    const buffer = await provider.generateImage(prompt, seed ?? undefined);
+    console.log(`  ✓ Generated image (${Math.round(buffer.length / 1024)}KB)`);
+    return buffer;
+
+  } catch (error) {
+    console.error(`  ✗ Failed to generate "${keyword}":`, error);
+    return null;
   }
-  return key;
 }
 
-async function sleep(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
+/**
+ * Writes the Yoto-ready 16x16 version next to the raw image (or into
+ * outDir). Returns null when the image cannot be processed; the raw file
+ * is kept either way.
+ */
+function savePixelArt(rawPath: string, imageBuffer: Buffer, outDir?: string): { file: string; icon: RgbaImage } | null {
+  try {
+    const icon = toPixelArt(decodePng(imageBuffer));
+    const file = path.join(outDir || path.dirname(rawPath), path.basename(rawPath, '.png') + PIXEL_ART_SUFFIX);
+    fs.writeFileSync(file, encodePng(icon));
+    console.log(`  🟩 16x16 icon: ${file}`);
+    return { file, icon };
+  } catch (error) {
+    console.warn(`  ⚠️  Could not make a 16x16 icon from ${rawPath}: ${error instanceof Error ? error.message : error}`);
+    return null;
+  }
 }
 
-function getIconPrompt(keyword: string, language: 'english' | 'hebrew'): string {
-  // Convert Hebrew keywords to English concepts for better AI generation
-  const hebrewToEnglish: { [key: string]: string } = {
-    'בלון': 'red balloon',
-    'טרקטור': 'tractor',
-    'חברים': 'friends group',
-    'סבתא': 'grandmother',
-    'הר': 'mountain',
-    'אופניים': 'bicycle',
-    'רחפן': 'helicopter',
-    'ורד': 'rose flower',
-    'יד': 'hand pointing',
-    'מרים משקולות': 'weightlifting'
-  };
+function savePreviewSheet(dir: string, icons: Array<{ file: string; icon: RgbaImage }>): void {
+  if (icons.length === 0) return;
+  const file = path.join(dir, PREVIEW_SHEET);
+  fs.writeFileSync(file, encodePng(buildPreviewSheet(icons.map(i => i.icon))));
+  console.log(`\n🖼️  Preview sheet: ${file} (left to right, top to bottom)`);
+  icons.forEach((i, n) => console.log(`  ${n + 1}. ${path.basename(i.file)}`));
+}
 
-  const englishConcept = language === 'hebrew' && hebrewToEnglish[keyword] ?
-    hebrewToEnglish[keyword] : keyword;
+/**
+ * Uploads a 16x16 icon as a custom Yoto icon and maps the keyword to it,
+ * marked as generated. The mapping file is saved after every upload, so an
+ * interrupted run keeps what it already uploaded.
+ */
+async function uploadAndRegister(
+  bearer: string,
+  keyword: string,
+  file: string,
+  language: Language,
+  model?: string
+): Promise<string> {
+  const iconId = await uploadIcon(bearer, fs.readFileSync(file), path.basename(file));
+
+  const store = fs.existsSync(getYotoIconIdsFile(language)) ? loadIconStore(language) : createIconStore();
+  addIconCandidate(store, keyword, {
+    iconId,
+    label: keyword,
+    model,
+    createdAt: new Date().toISOString(),
+    provenance: 'generated',
+    file
+  });
+  saveIconStore(store, language);
 
-  return `Simple flat design icon of ${englishConcept}, 16x16 pixel style, minimal, clean lines, transparent background, high contrast, suitable for children's content, vector style, no text, no shadows`;
+  console.log(`  ☁️  Uploaded as ${iconId} and mapped to "${keyword}"`);
+  return iconId;
 }
 
+// Uploads one icon; null when it failed. An auth failure is thrown, as every later upload would fail too
+async function tryUpload(bearer: string, keyword: string, file: string, language: Language, model?: string): Promise<string | null> {
+  try {
+    return await uploadAndRegister(bearer, keyword, file, language, model);
+  } catch (error) {
+    if (error instanceof YotoAuthError) throw error;
+    console.error(`  ✗ Upload failed: ${describeYotoError(error)}`);
+    return null;
+  }
+}
 
+// Points at a public icon the new image duplicates, when the icon cache is synced
+function warnIfExistingIcon(imageBuffer: Buffer): void {
+  const index = loadIconCacheIndex();
+  if (Object.keys(index.icons).length === 0) return;
 
-async function generateIconWithDALLE(keyword: string, language: 'english' | 'hebrew'): Promise<Buffer | null> {
   try {
-    const prompt = getIconPrompt(keyword, language);
-    console.log(`🎨 Generating "${keyword}" with DALL-E...`);
-
-    const openai = new OpenAI({ apiKey: getOpenAIKey() });
-
-    const response = await openai.images.generate({
-      model: "dall-e-3",
-      prompt: prompt,
-      size: "1024x1024",
-      quality: "standard",
-      n: 1,
-    });
-
-    const imageUrl = response.data?.[0]?.url;
-    if (!imageUrl) {
-      throw new Error('No image URL returned from DALL-E');
+    const [match] = findSimilarIcons(fingerprintPng(imageBuffer), index, 1);
+    if (match && match.score >= CONFIG.DUPLICATE_THRESHOLD) {
+      console.log(`  ♻️  Looks like existing Yoto icon ${match.iconId} (${(match.score * 100).toFixed(0)}% similar) - consider reusing it`);
+    }
+  } catch (error) {
+    // Not a PNG we can decode; skip the check
+  }
+}
+
+// The variant's seed: counted up from --seed, else random; null when the provider ignores seeds
+function variantSeed(options: GenerateOptions, variant: number): number | null {
+  if (!getProvider().imageSeeds) return null;
+  return options.seed !== undefined ? options.seed + variant - 1 : crypto.randomInt(2 ** 31);
+}
+
+// generated_<keyword>_v<n>.json: everything needed to ask for the same image again
+function saveSidecar(sidecar: GeneratedImageSidecar): void {
+  const file = path.join(GENERATED_DIR, sidecar.raw.replace(/\.png$/, '.json'));
+  fs.writeFileSync(file, JSON.stringify(sidecar, null, 2) + '\n', 'utf-8');
+}
+
+/**
+ * Generates the keyword's variants, each saved raw, as a 16x16 icon and
+ * with a sidecar JSON of its prompt, model and seed. Returns the manifest
+ * entry, or null when no variant could be generated.
+ */
+async function generateVariants(
+  keyword: string,
+  options: GenerateOptions,
+  processed: Array<{ file: string; icon: RgbaImage }>,
+  previousStyle?: string
+): Promise<GeneratedIconEntry | null> {
+  // A regeneration keeps the style the keyword was generated in, unless --style says otherwise
+  const { style, prompt } = buildIconPrompt(keyword, options.language, options.style || previousStyle);
+  const letters = new RegExp(`[^a-zA-Z0-9${getLanguage(options.language).script}]`, 'g');
+  const provider = getProvider();
+  const variants: GeneratedVariant[] = [];
+  console.log(`  🖌️  Style "${style}": ${prompt}`);
+
+  for (let v = 1; v <= options.variants; v++) {
+    const label = options.variants > 1 ? `${keyword} #${v}` : keyword;
+    const seed = variantSeed(options, v);
+    const imageBuffer = await generateIconImage(label, prompt, seed);
+    if (imageBuffer) {
+      const filename = `generated_${keyword.replace(letters, '_')}_v${v}.png`;
+      const fullPath = path.join(GENERATED_DIR, filename);
+      fs.writeFileSync(fullPath, imageBuffer);
+      console.log(`  📁 Saved as: ${fullPath}`);
+
+      const pixelArt = savePixelArt(fullPath, imageBuffer);
+      if (pixelArt) processed.push(pixelArt);
+      warnIfExistingIcon(pixelArt ? encodePng(pixelArt.icon) : imageBuffer);
+      const variant: GeneratedVariant = { raw: filename, icon: pixelArt ? path.basename(pixelArt.file) : null };
+      variants.push(variant);
+
+      saveSidecar({
+        keyword,
+        language: options.language,
+        style,
+        prompt,
+        provider: provider.name,
+        model: provider.imageModel,
+        seed,
+        variant: v,
+        generatedAt: new Date().toISOString(),
+        ...variant
+      });
     }
 
-    // Download the image
-    console.log(`  📥 Downloading generated image...`);
-    const imageResponse = await fetch(imageUrl);
-    if (!imageResponse.ok) {
-      throw new Error(`Failed to download image: ${imageResponse.status}`);
+    // Rate limiting for the image API
+    if (v < options.variants) {
+      await sleep(3000);
     }
+  }
 
-    const buffer = Buffer.from(await imageResponse.arrayBuffer());
-    console.log(`  ✓ Generated image (${Math.round(buffer.length / 1024)}KB)`);
-    return buffer;
+  if (variants.length === 0) return null;
+  return {
+    keyword,
+    language: options.language,
+    style,
+    prompt,
+    model: provider.imageModel,
+    generatedAt: new Date().toISOString(),
+    variants,
+    decision: 'pending'
+  };
+}
 
-  } catch (error) {
-    console.error(`  ✗ Failed to generate "${keyword}":`, error);
-    return null;
+// Keywords to generate: --regenerate picks the ones reviewed as "regenerate", otherwise --keywords or all missing
+function selectKeywords(options: GenerateOptions, manifest: GeneratedIconsManifest): string[] {
+  let keywords: string[];
+  if (options.regenerate) {
+    keywords = manifest.icons
+      .filter(entry => entry.language === options.language && entry.decision === 'regenerate')
+      .map(entry => entry.keyword);
+  } else if (options.keywords && options.keywords.length > 0) {
+    return options.keywords;
+  } else {
+    keywords = getIconMappingStats(options.language).unmappedKeywords;
+  }
+  return options.limit ? keywords.slice(0, options.limit) : keywords;
+}
+
+/**
+ * Brings gallery decisions into the manifest: the decisions file given
+ * with --decisions, or the gallery download saved in generated-icons/.
+ */
+function syncDecisions(manifest: GeneratedIconsManifest, options: GenerateOptions): void {
+  const file = options.decisions || CONFIG.REVIEW_DECISIONS_FILE;
+  const decisions = loadReviewDecisions(file);
+  if (!decisions) {
+    if (options.decisions) {
+      throw new Error(`Decisions file not found: ${options.decisions}`);
+    }
+    return;
+  }
+
+  const applied = importDecisions(manifest, decisions);
+  if (applied > 0) {
+    saveGeneratedManifest(manifest);
+    console.log(`📥 ${applied} review decisions taken from ${file}`);
   }
 }
 
+function showReviewStatus(manifest: GeneratedIconsManifest, language: Language): void {
+  const entries = manifest.icons.filter(entry => entry.language === language);
+  const count = (decision: IconReviewDecision) => entries.filter(entry => entry.decision === decision).length;
+  const waiting = entries.filter(entry => entry.decision === 'approved' && !entry.uploadedIconId).length;
 
+  console.log(`\n🗂️  Review (${language}): ${count('pending')} undecided, ${count('approved')} approved (${waiting} not uploaded yet), ` +
+    `${count('rejected')} rejected, ${count('regenerate')} to regenerate`);
+  console.log(`🖼️  Gallery: ${writeGallery(manifest)}`);
+}
 
 async function generateMissingIcons(options: GenerateOptions): Promise<void> {
   console.log(`🚀 Generate Mode - Language: ${options.language}`);
@@ -95,67 +287,52 @@ async function generateMissingIcons(options: GenerateOptions): Promise<void> {
   }
   console.log('='.repeat(50));
 
-  // Get missing keywords
-  let keywordsToGenerate: string[];
-  if (options.keywords && options.keywords.length > 0) {
-    keywordsToGenerate = options.keywords;
-  } else {
-    const stats = getIconMappingStats(options.language);
-    keywordsToGenerate = stats.unmappedKeywords;
-
-    if (options.limit) {
-      keywordsToGenerate = keywordsToGenerate.slice(0, options.limit);
-    }
-  }
+  const manifest = loadGeneratedManifest();
+  syncDecisions(manifest, options);
+  const keywordsToGenerate = selectKeywords(options, manifest);
 
   if (keywordsToGenerate.length === 0) {
-    console.log('✅ No missing icons to generate!');
+    console.log(options.regenerate ? '✅ Nothing marked for regeneration!' : '✅ No missing icons to generate!');
     return;
   }
 
-  console.log(`🎨 Will generate ${keywordsToGenerate.length} icons:`);
+  console.log(`🎨 Will generate ${keywordsToGenerate.length} icons, ${options.variants} variant${options.variants > 1 ? 's' : ''} each:`);
   keywordsToGenerate.forEach((keyword, i) => {
     console.log(`  ${i + 1}. ${keyword}`);
   });
 
   if (options.dryRun) {
-    console.log(`\n🧪 DRY RUN - Would generate ${keywordsToGenerate.length} icons`);
+    console.log(`\n🧪 DRY RUN - Would generate ${keywordsToGenerate.length * options.variants} images`);
     return;
   }
 
   console.log('\n🏁 Starting generation...');
+  if (!fs.existsSync(GENERATED_DIR)) {
+    fs.mkdirSync(GENERATED_DIR, { recursive: true });
+  }
 
   let successful = 0;
   let failed = 0;
+  const processed: Array<{ file: string; icon: RgbaImage }> = [];
 
   for (let i = 0; i < keywordsToGenerate.length; i++) {
     const keyword = keywordsToGenerate[i];
     console.log(`\n[${i + 1}/${keywordsToGenerate.length}] Processing "${keyword}"`);
 
     try {
-      // Generate image with DALL-E
-      const imageBuffer = await generateIconWithDALLE(keyword, options.language);
-      if (!imageBuffer) {
+      const previous = findGeneratedEntry(manifest, options.language, keyword);
+      const entry = await generateVariants(keyword, options, processed, previous?.style);
+      if (!entry) {
         failed++;
         continue;
       }
 
-      // Save generated icon to disk for manual upload
-      console.log(`  💾 Saving generated icon to disk for manual upload`);
-
-      // Ensure generated-icons directory exists
-      const generatedDir = 'generated-icons';
-      if (!fs.existsSync(generatedDir)) {
-        fs.mkdirSync(generatedDir);
-      }
-
-      const filename = `generated_${keyword.replace(/[^a-zA-Z0-9\u0590-\u05FF]/g, '_')}.png`;
-      const fullPath = path.join(generatedDir, filename);
-      fs.writeFileSync(fullPath, imageBuffer);
-      console.log(`  📁 Saved as: ${fullPath}`);
+      // Saved per keyword, so an interrupted run keeps what it generated
+      recordGeneration(manifest, entry);
+      saveGeneratedManifest(manifest);
       successful++;
 
-      // Rate limiting for DALL-E API
+      // Rate limiting for the image API
       if (i < keywordsToGenerate.length - 1) {
         console.log('  ⏳ Waiting 3 seconds...');
         await sleep(3000);
@@ -167,32 +344,180 @@ async function generateMissingIcons(options: GenerateOptions): Promise<void> {
     }
   }
 
+  savePreviewSheet(GENERATED_DIR, processed);
+
   // Summary
   console.log(`\n📊 Generation Complete:`);
   console.log(`  ✅ Successful: ${successful}`);
   console.log(`  ❌ Failed: ${failed}`);
+  showReviewStatus(manifest, options.language);
 
   if (successful > 0) {
     console.log(`\n🎉 ${successful} new icons created!`);
-    console.log(`📁 Icons saved to generated-icons/ directory`);
-    console.log(`📝 Manual upload required - see README for instructions`);
+    console.log(`📝 Next: open the gallery, pick a variant per keyword, save ${path.basename(CONFIG.REVIEW_DECISIONS_FILE)} into ${GENERATED_DIR}/,`);
+    console.log(`   then run \`npm run generate -- --language ${options.language} --upload\``);
+  }
+}
+
+/**
+ * Uploads the approved variant of every reviewed keyword not uploaded yet
+ * and maps the keyword to it. The manifest records each upload as it
+ * happens, so a rerun skips what is already on Yoto.
+ */
+async function uploadApproved(options: GenerateOptions): Promise<void> {
+  console.log(`☁️  Upload Mode - Language: ${options.language}${options.dryRun ? ' (dry run)' : ''}`);
+  console.log('='.repeat(50));
+
+  const manifest = loadGeneratedManifest();
+  syncDecisions(manifest, options);
+  const ready = manifest.icons.filter(entry =>
+    entry.language === options.language && entry.decision === 'approved' && !entry.uploadedIconId);
+
+  if (ready.length === 0) {
+    console.log('✅ No approved icons waiting for upload');
+    showReviewStatus(manifest, options.language);
+    return;
+  }
+
+  let uploaded = 0;
+  for (const entry of ready) {
+    const variant = entry.variants[entry.approvedVariant!];
+    console.log(`\n📤 "${entry.keyword}" - variant #${entry.approvedVariant! + 1} (${variant.icon})`);
+    if (options.dryRun) continue;
+
+    const iconId = await tryUpload(options.bearer, entry.keyword, path.join(GENERATED_DIR, variant.icon!), options.language, entry.model);
+    if (iconId) {
+      entry.uploadedIconId = iconId;
+      saveGeneratedManifest(manifest);
+      uploaded++;
+    }
+  }
+
+  console.log(`\n📊 ${options.dryRun ? `Would upload ${ready.length}` : `Uploaded ${uploaded}/${ready.length}`} icons`);
+  showReviewStatus(manifest, options.language);
+  if (!options.dryRun && uploaded < ready.length) {
+    process.exitCode = 1;
+  }
+}
+
+// Raw images in generated-icons/, skipping earlier pixel-art output
+function listRawImages(): string[] {
+  if (!fs.existsSync(GENERATED_DIR)) return [];
+  return fs.readdirSync(GENERATED_DIR)
+    .filter(file => file.endsWith('.png') && !file.endsWith(PIXEL_ART_SUFFIX) && file !== PREVIEW_SHEET)
+    .sort()
+    .map(file => path.join(GENERATED_DIR, file));
+}
+
+// "generated_<keyword>_v2.png" (or "<keyword>.png") -> keyword, if the language knows it
+function keywordForFile(file: string, language: Language): string | null {
+  return resolveKeyword(path.basename(file, '.png').replace(/^generated_/, '').replace(/_v\d+$/, ''), language);
+}
+
+/**
+ * Turns images already on disk into 16x16 icons and a preview sheet,
+ * offline. With --upload, each icon whose file name is a known keyword is
+ * uploaded and mapped too (only listed with --dry).
+ */
+async function processExistingIcons(options: GenerateOptions): Promise<void> {
+  const files = options.process || [];
+  const { outDir } = options;
+  const sources = files.length > 0 ? files : listRawImages();
+  console.log(`🟩 Pixel-art mode - ${sources.length} images${options.upload ? ', uploading' : ''}${options.dryRun ? ' (dry run)' : ''}`);
+  console.log('='.repeat(50));
+
+  if (sources.length === 0) {
+    console.log(`✅ No images in ${GENERATED_DIR}/ to process`);
+    return;
+  }
+  if (outDir) {
+    fs.mkdirSync(outDir, { recursive: true });
+  }
+
+  const processed: Array<{ file: string; icon: RgbaImage }> = [];
+  let uploaded = 0;
+  for (const file of sources) {
+    console.log(`\n📄 ${file}`);
+    const result = savePixelArt(file, fs.readFileSync(file), outDir);
+    if (!result) continue;
+    processed.push(result);
+
+    if (options.upload) {
+      const keyword = keywordForFile(file, options.language);
+      if (!keyword) {
+        console.log(`  ⏭️  Not uploaded - "${path.basename(file)}" is not named after a ${options.language} keyword`);
+      } else if (options.dryRun) {
+        console.log(`  🧪 Would upload and map to "${keyword}"`);
+        uploaded++;
+      } else if (await tryUpload(options.bearer, keyword, result.file, options.language)) {
+        uploaded++;
+      }
+    }
+  }
+
+  savePreviewSheet(outDir || path.dirname(sources[0]), processed);
+  console.log(`\n📊 Processed ${processed.length}/${sources.length} images${options.upload ? `, ${options.dryRun ? 'would upload' : 'uploaded'} ${uploaded}` : ''}`);
+  if (processed.length < sources.length || (options.upload && uploaded < processed.length)) {
+    process.exitCode = 1;
+  }
+}
+
+function parseKeywords(value: string): string[] {
+  // Accept a report file from `npm run report` as well as a comma-separated list
+  if (value.endsWith('.json') && fs.existsSync(value)) {
+    const report = JSON.parse(fs.readFileSync(value, 'utf-8'));
+    return Array.isArray(report) ? report : report.keywords || [];
   }
+
+  return value.split(',');
 }
 
 function parseArgs(): GenerateOptions {
-  const args = minimist(process.argv.slice(2));
+  const args = minimist(process.argv.slice(2), {
+    boolean: ['process', 'upload', 'regenerate', 'gallery'],
+    string: ['style']
+  });
+
+  const language = parseLanguageArg(args.language);
+
+  configureProvider(parseProviderArgs(args));
+
+  const variants = args.variants !== undefined ? parseInt(args.variants) : CONFIG.IMAGE_VARIANTS;
+  if (isNaN(variants) || variants < 1) {
+    console.error('❌ --variants must be a whole number of at least 1');
+    process.exit(1);
+  }
 
-  const language = (args.language || 'english') as 'english' | 'hebrew';
-  if (!['english', 'hebrew'].includes(language)) {
-    console.error('❌ --language must be "english" or "hebrew"');
+  const styles = listStyles();
+  if (args.style && !styles.includes(args.style)) {
+    console.error(`❌ Unknown style "${args.style}" (expected: ${styles.join(', ')})`);
     process.exit(1);
   }
 
+  const seed = args.seed !== undefined ? parseInt(args.seed) : undefined;
+  if (seed !== undefined && (isNaN(seed) || seed < 0)) {
+    console.error('❌ --seed must be a whole number of at least 0');
+    process.exit(1);
+  }
+  if (seed !== undefined && !getProvider().imageSeeds) {
+    console.warn(`⚠️  The ${getProvider().name} provider takes no seed - --seed is ignored`);
+  }
+
   return {
     language,
-    keywords: args.keywords ? args.keywords.split(',') : undefined,
+    keywords: args.keywords ? parseKeywords(String(args.keywords)) : undefined,
     limit: args.limit ? parseInt(args.limit) : undefined,
-    dryRun: args.dry || args['dry-run'] || false
+    dryRun: args.dry || args['dry-run'] || false,
+    variants,
+    style: args.style || undefined,
+    seed,
+    regenerate: args.regenerate,
+    gallery: args.gallery,
+    decisions: args.decisions ? String(args.decisions) : undefined,
+    process: args.process ? args._.map(String) : undefined,
+    outDir: args.out ? String(args.out) : undefined,
+    upload: args.upload,
+    bearer: args.bearer || ''
   };
 }
 
@@ -200,17 +525,41 @@ function showUsage(): void {
   console.log('Usage: npm run generate -- [options]');
   console.log('');
   console.log('Options:');
-  console.log('  --language <LANG>       "english" or "hebrew" (default: english)');
-  console.log('  --keywords <LIST>       Comma-separated keywords (default: all missing)');
+  console.log(`  --language <LANG>       ${listLanguages().join(', ')} (default: english)`);
+  console.log('  --keywords <LIST>       Comma-separated keywords or a report JSON file (default: all missing)');
   console.log('  --limit <N>             Limit number to generate');
   console.log('  --dry, --dry-run        Preview only');
+  console.log(`  --variants <N>          Images per keyword to choose from (default: ${CONFIG.IMAGE_VARIANTS})`);
+  console.log(`  --style <NAME>          Prompt style from ${CONFIG.PROMPTS_FILE}: ${listStyles().join(', ')}`);
+  console.log('  --seed <N>              Seed of the first variant, to reproduce a result (providers that take seeds)');
+  console.log('  --regenerate            Generate again the keywords marked "Regenerate" in the gallery');
+  console.log('  --gallery               Only read review decisions and rebuild the gallery');
+  console.log(`  --decisions <FILE>      Decisions saved from the gallery (default: ${CONFIG.REVIEW_DECISIONS_FILE})`);
+  console.log('  --upload                Upload the approved variants to Yoto and map their keywords to them');
+  console.log('  --bearer <TOKEN>        Yoto bearer token for --upload (default: stored login from `npm run login`)');
+  console.log('  --process [PNG...]      Only turn existing images into 16x16 icons (default: all in generated-icons/);');
+  console.log('                          with --upload, uploads every image named after a keyword, without review');
+  console.log('  --out <DIR>             Where --process writes icons and the preview sheet (default: next to each image)');
+  console.log(PROVIDER_USAGE);
   console.log('');
   console.log('Examples:');
   console.log('  npm run generate -- --language hebrew --limit 5');
   console.log('  npm run generate -- --keywords "בלון,טרקטור" --dry');
   console.log('  npm run generate -- --language english --keywords "cat,dog,tree"');
+  console.log('  npm run generate -- --language hebrew --keywords data/missing_icons_hebrew.json');
+  console.log('  npm run generate -- --keywords "cat" --provider fake');
+  console.log('  npm run generate -- --process');
+  console.log('  npm run generate -- --process generated-icons/בלון.png --out tmp/icons');
+  console.log('  npm run generate -- --language hebrew --limit 5 --variants 4');
+  console.log('  npm run generate -- --language hebrew --upload --decisions ~/Downloads/decisions.json');
+  console.log('  npm run generate -- --language hebrew --regenerate');
+  console.log('  npm run generate -- --keywords "cat" --style pixel --provider compatible --seed 42 --variants 1');
+  console.log('  npm run generate -- --language hebrew --process --upload');
   console.log('');
-  console.log('Generated icons are saved to generated-icons/ for manual upload.');
+  console.log(`Generated images are saved to generated-icons/, each with a 16x16 *${PIXEL_ART_SUFFIX} version and a .json`);
+  console.log('sidecar holding its exact prompt, model and seed, plus a');
+  console.log(`${PREVIEW_SHEET} sheet of the run. Review them in ${CONFIG.GALLERY_FILE}; --upload then sends the approved`);
+  console.log('icons to Yoto and records them in data/yoto_icon_ids_<language>.json as generated icons.');
 }
 
 async function main(): Promise<void> {
@@ -221,9 +570,22 @@ async function main(): Promise<void> {
     }
 
     const options = parseArgs();
-    await generateMissingIcons(options);
+    if (options.upload && !options.dryRun) {
+      options.bearer = await resolveBearer(options.bearer || undefined);
+    }
+    if (options.process) {
+      await processExistingIcons(options);
+    } else if (options.upload) {
+      await uploadApproved(options);
+    } else if (options.gallery) {
+      const manifest = loadGeneratedManifest();
+      syncDecisions(manifest, options);
+      showReviewStatus(manifest, options.language);
+    } else {
+      await generateMissingIcons(options);
+    }
   } catch (error) {
-    console.error('❌ Generation failed:', error);
+    console.error(`❌ Generation failed: ${describeYotoError(error)}`);
     process.exit(1);
   }
 }
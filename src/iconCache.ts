@@ -0,0 +1,167 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import fetch from 'node-fetch';
+import { CONFIG } from './config';
+import { decodePng } from './png';
+import { computeFingerprint, compareFingerprints } from './fingerprint';
+import { IconCacheEntry, IconCacheIndex, IconFingerprint, IconSimilarity } from './types';
+
+function getIndexFile(): string {
+  return path.resolve(CONFIG.ICON_CACHE_DIR, 'index.json');
+}
+
+async function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+export function loadIconIds(): string[] {
+  const content = fs.readFileSync(path.resolve(CONFIG.ICON_IDS_FILE), 'utf-8');
+  return content.trim().split('\n').map(line => line.trim()).filter(line => line);
+}
+
+export function loadIconCacheIndex(): IconCacheIndex {
+  try {
+    return JSON.parse(fs.readFileSync(getIndexFile(), 'utf-8'));
+  } catch (error) {
+    return { version: 1, icons: {} };
+  }
+}
+
+export function saveIconCacheIndex(index: IconCacheIndex): string {
+  const filePath = getIndexFile();
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(index, null, 2), 'utf-8');
+  return filePath;
+}
+
+export function fingerprintPng(buffer: Buffer): IconFingerprint & { width: number; height: number } {
+  const image = decodePng(buffer);
+  return { ...computeFingerprint(image), width: image.width, height: image.height };
+}
+
+function indexPng(buffer: Buffer, file: string, sha1: string): IconCacheEntry {
+  return { file, sha1, ...fingerprintPng(buffer) };
+}
+
+/**
+ * Downloads every icon not yet in the cache (one request each, ever) and
+ * fingerprints any PNG whose bytes changed since it was last indexed.
+ */
+export async function syncIconCache(
+  iconIds: string[],
+  options: { refresh?: boolean } = {}
+): Promise<{ downloaded: number; indexed: number; failed: Array<{ iconId: string; error: string }> }> {
+  const dir = path.resolve(CONFIG.ICON_CACHE_DIR);
+  fs.mkdirSync(dir, { recursive: true });
+
+  const index = loadIconCacheIndex();
+  const failed: Array<{ iconId: string; error: string }> = [];
+  let downloaded = 0;
+  let indexed = 0;
+
+  try {
+    for (const iconId of iconIds) {
+      const file = `${iconId}.png`;
+      const filePath = path.join(dir, file);
+
+      try {
+        if (options.refresh || !fs.existsSync(filePath)) {
+          const response = await fetch(`${CONFIG.YOTO_ICON_URL}/${iconId}`);
+          if (!response.ok) {
+            throw new Error(`${response.status} ${response.statusText}`);
+          }
+          fs.writeFileSync(filePath, await response.buffer());
+          downloaded++;
+          console.log(`  📥 ${iconId}`);
+          await sleep(CONFIG.YOTO_DELAY_MS);
+        }
+
+        const buffer = fs.readFileSync(filePath);
+        const existing = index.icons[iconId];
+        const sha1 = crypto.createHash('sha1').update(buffer).digest('hex');
+        if (!existing || existing.sha1 !== sha1) {
+          index.icons[iconId] = indexPng(buffer, file, sha1);
+          indexed++;
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        failed.push({ iconId, error: message });
+        console.warn(`  ⚠️  ${iconId}: ${message}`);
+      }
+    }
+  } finally {
+    saveIconCacheIndex(index);
+  }
+
+  return { downloaded, indexed, failed };
+}
+
+// Most similar cached icons first
+export function findSimilarIcons(
+  fingerprint: IconFingerprint,
+  index: IconCacheIndex,
+  limit: number,
+  excludeId?: string
+): IconSimilarity[] {
+  return Object.entries(index.icons)
+    .filter(([iconId]) => iconId !== excludeId)
+    .map(([iconId, entry]) => compareFingerprints(iconId, fingerprint, entry))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+/**
+ * Groups icons that look alike: any pair at or above the threshold joins
+ * the same group, so near-copies chain together.
+ */
+export function findDuplicateGroups(index: IconCacheIndex, threshold: number): string[][] {
+  const iconIds = Object.keys(index.icons).sort();
+  const parent = new Map(iconIds.map(iconId => [iconId, iconId]));
+
+  const find = (iconId: string): string => {
+    while (parent.get(iconId) !== iconId) {
+      iconId = parent.get(iconId)!;
+    }
+    return iconId;
+  };
+
+  for (let i = 0; i < iconIds.length; i++) {
+    for (let j = i + 1; j < iconIds.length; j++) {
+      const similarity = compareFingerprints(iconIds[j], index.icons[iconIds[i]], index.icons[iconIds[j]]);
+      if (similarity.score >= threshold) {
+        parent.set(find(iconIds[j]), find(iconIds[i]));
+      }
+    }
+  }
+
+  const groups = new Map<string, string[]>();
+  for (const iconId of iconIds) {
+    const root = find(iconId);
+    groups.set(root, [...(groups.get(root) || []), iconId]);
+  }
+
+  return Array.from(groups.values()).filter(group => group.length > 1);
+}
+
+/**
+ * The catalog's most common colours, as hex, from the icons' colour
+ * histograms. Each histogram bin stands for its 4x4x4 grid colour, so the
+ * result is coarse but enough to steer an image prompt.
+ */
+export function catalogPalette(index: IconCacheIndex, count: number): string[] {
+  const totals = new Array(64).fill(0);
+  for (const entry of Object.values(index.icons)) {
+    entry.histogram.forEach((share, bin) => {
+      totals[bin] += share;
+    });
+  }
+
+  const hex = (level: number) => (level * 85).toString(16).padStart(2, '0');
+  return totals
+    .map((total, bin) => ({ total, bin }))
+    .filter(({ total }) => total > 0)
+    .sort((a, b) => b.total - a.total)
+    .slice(0, count)
+    .map(({ bin }) => `#${hex(bin >> 4)}${hex((bin >> 2) & 3)}${hex(bin & 3)}`);
+}
@@ -0,0 +1,180 @@
+#!/usr/bin/env node
+
+import * as fs from 'fs';
+import minimist from 'minimist';
+import { CONFIG } from './config';
+import { parseLanguageArg } from './languages';
+import { loadIconStore } from './mappings';
+import { compareFingerprints } from './fingerprint';
+import {
+  loadIconIds,
+  loadIconCacheIndex,
+  syncIconCache,
+  fingerprintPng,
+  findSimilarIcons,
+  findDuplicateGroups
+} from './iconCache';
+import { IconSimilarity, Language } from './types';
+
+interface IconsOptions {
+  command: 'sync' | 'duplicates' | 'lookup';
+  files: string[];
+  language: Language;
+  threshold: number;
+  top: number;
+  refresh: boolean;
+}
+
+// Icon ID -> keywords it is mapped to, so results say what each icon is
+function loadIconKeywords(language: Language): Map<string, string[]> {
+  const keywords = new Map<string, string[]>();
+  try {
+    const store = loadIconStore(language);
+    for (const [keyword, candidates] of Object.entries(store.keywords)) {
+      for (const candidate of candidates) {
+        keywords.set(candidate.iconId, [...(keywords.get(candidate.iconId) || []), keyword]);
+      }
+    }
+  } catch (error) {
+    // No mappings yet - results just show icon IDs
+  }
+  return keywords;
+}
+
+function describeIcon(iconId: string, keywords: Map<string, string[]>): string {
+  const mapped = keywords.get(iconId);
+  return mapped ? `${iconId} (${mapped.join(', ')})` : iconId;
+}
+
+function formatSimilarity(match: IconSimilarity, keywords: Map<string, string[]>): string {
+  return `${(match.score * 100).toFixed(1)}%  ${describeIcon(match.iconId, keywords)}` +
+    `  [aHash ${match.aHashDistance}/64, dHash ${match.dHashDistance}/64, color ${(match.colorOverlap * 100).toFixed(0)}%]`;
+}
+
+function requireIndex() {
+  const index = loadIconCacheIndex();
+  if (Object.keys(index.icons).length === 0) {
+    console.error('❌ Icon cache is empty - run `npm run icons -- sync` first');
+    process.exit(1);
+  }
+  return index;
+}
+
+async function runSync(options: IconsOptions): Promise<void> {
+  const iconIds = loadIconIds();
+  console.log(`📦 Syncing ${iconIds.length} icons into ${CONFIG.ICON_CACHE_DIR}${options.refresh ? ' (re-downloading)' : ''}`);
+
+  const result = await syncIconCache(iconIds, { refresh: options.refresh });
+
+  console.log(`\n✅ Downloaded: ${result.downloaded}, fingerprinted: ${result.indexed}, failed: ${result.failed.length}`);
+  console.log(`📁 Index: ${Object.keys(loadIconCacheIndex().icons).length} icons`);
+  if (result.failed.length > 0) {
+    process.exitCode = 1;
+  }
+}
+
+function runDuplicates(options: IconsOptions): void {
+  const index = requireIndex();
+  const keywords = loadIconKeywords(options.language);
+  const groups = findDuplicateGroups(index, options.threshold);
+
+  console.log(`🔁 Duplicate icons (similarity >= ${(options.threshold * 100).toFixed(0)}%): ${groups.length} groups\n`);
+  groups.forEach((group, i) => {
+    console.log(`  Group ${i + 1}:`);
+    const [first, ...rest] = group;
+    console.log(`    ${describeIcon(first, keywords)}`);
+    for (const iconId of rest) {
+      console.log(`    ${formatSimilarity(compareFingerprints(iconId, index.icons[first], index.icons[iconId]), keywords)}`);
+    }
+  });
+}
+
+function runLookup(options: IconsOptions): void {
+  const index = requireIndex();
+  const keywords = loadIconKeywords(options.language);
+
+  for (const file of options.files) {
+    const fingerprint = fingerprintPng(fs.readFileSync(file));
+    const matches = findSimilarIcons(fingerprint, index, options.top);
+
+    console.log(`\n🔎 ${file} (${fingerprint.width}x${fingerprint.height})`);
+    matches.forEach((match, i) => {
+      const marker = match.score >= options.threshold ? '  ♻️  likely the same icon' : '';
+      console.log(`  ${i + 1}. ${formatSimilarity(match, keywords)}${marker}`);
+    });
+  }
+}
+
+function parseArgs(): IconsOptions {
+  const args = minimist(process.argv.slice(2));
+  const [command, ...files] = args._.map(String);
+
+  if (!['sync', 'duplicates', 'lookup'].includes(command)) {
+    console.error('❌ Command must be one of: sync, duplicates, lookup');
+    showUsage();
+    process.exit(1);
+  }
+
+  if (command === 'lookup' && files.length === 0) {
+    console.error('❌ lookup needs at least one PNG file');
+    process.exit(1);
+  }
+
+  const language = parseLanguageArg(args.language);
+
+  return {
+    command: command as IconsOptions['command'],
+    files,
+    language,
+    threshold: args.threshold ? parseFloat(args.threshold) : CONFIG.DUPLICATE_THRESHOLD,
+    top: args.top ? parseInt(args.top) : 5,
+    refresh: args.refresh || false
+  };
+}
+
+function showUsage(): void {
+  console.log(`
+Usage: ts-node src/icons.ts <command> [options]
+
+Commands:
+  sync                    Download every icon in icon_ids.txt once and fingerprint it
+  duplicates              List groups of catalog icons that look the same
+  lookup <PNG...>         Find the catalog icons that look most like local PNG files
+
+Options:
+  --threshold <0-1>       Similarity that counts as the same icon (default: ${CONFIG.DUPLICATE_THRESHOLD})
+  --top <N>               Matches to show per file for lookup (default: 5)
+  --language <LANG>       Show mapped keywords from this language (default: english)
+  --refresh               Re-download icons that are already cached
+
+Examples:
+  ts-node src/icons.ts sync
+  ts-node src/icons.ts duplicates --threshold 0.95
+  ts-node src/icons.ts lookup generated-icons/*.png --language hebrew
+`);
+}
+
+async function main(): Promise<void> {
+  try {
+    if (process.argv.includes('--help') || process.argv.includes('-h')) {
+      showUsage();
+      process.exit(0);
+    }
+
+    const options = parseArgs();
+    if (options.command === 'sync') {
+      await runSync(options);
+    } else if (options.command === 'duplicates') {
+      runDuplicates(options);
+    } else {
+      runLookup(options);
+    }
+  } catch (error) {
+    console.error('❌ Icons command failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main();
+}
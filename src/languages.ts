@@ -0,0 +1,90 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CONFIG } from './config';
+import { Language, LanguageDefinition } from './types';
+
+let registry: Map<Language, LanguageDefinition> | null = null;
+
+/**
+ * Reads every definition in languages/. Adding a language means adding a
+ * JSON file there (plus its synonyms file), not editing code.
+ */
+function loadRegistry(): Map<Language, LanguageDefinition> {
+  if (registry) return registry;
+
+  const dir = path.resolve(CONFIG.LANGUAGES_DIR);
+  registry = new Map();
+
+  for (const file of fs.readdirSync(dir).filter(f => f.endsWith('.json')).sort()) {
+    const definition = JSON.parse(fs.readFileSync(path.join(dir, file), 'utf-8')) as Partial<LanguageDefinition>;
+    const name = definition.name || path.basename(file, '.json');
+    registry.set(name, {
+      displayName: name,
+      rtl: false,
+      script: '',
+      normalizer: 'none',
+      prefixes: [],
+      labelSuffixes: [],
+      gloss: {},
+      genericWords: [],
+      possessiveWords: [],
+      idioms: [],
+      visionPrompt: '',
+      synonymsFile: `./synonyms/${name}.json`,
+      ...definition,
+      name
+    } as LanguageDefinition);
+  }
+
+  return registry;
+}
+
+export function listLanguages(): Language[] {
+  return Array.from(loadRegistry().keys());
+}
+
+export function isKnownLanguage(language: string): boolean {
+  return loadRegistry().has(language);
+}
+
+export function getLanguage(language: Language): LanguageDefinition {
+  const definition = loadRegistry().get(language);
+  if (!definition) {
+    throw new Error(`Unknown language "${language}" (available: ${listLanguages().join(', ')})`);
+  }
+  return definition;
+}
+
+// Requested language first, then the rest, for script lookups
+export function getLanguagesByPriority(language: Language): LanguageDefinition[] {
+  const definitions = Array.from(loadRegistry().values());
+  return [getLanguage(language), ...definitions.filter(d => d.name !== language)];
+}
+
+// Shared --language validation for the command-line tools
+export function parseLanguageArg(value: unknown): Language {
+  const language = String(value || 'english');
+  if (!isKnownLanguage(language)) {
+    console.error(`❌ --language must be one of: ${listLanguages().join(', ')}`);
+    process.exit(1);
+  }
+  return language;
+}
+
+export function isRtlLanguage(language: Language): boolean {
+  return getLanguage(language).rtl;
+}
+
+export function formatTextForDisplay(text: string, language: Language, disableRtl: boolean = true): string {
+  // Terminal RTL support is poor, so disable by default for better readability
+  if (disableRtl) {
+    return text;
+  }
+
+  // Legacy RTL formatting (if ever needed)
+  if (isRtlLanguage(language)) {
+    return `\u200F${text}`;
+  }
+
+  return text;
+}
@@ -0,0 +1,272 @@
+import * as crypto from 'crypto';
+import OpenAI from 'openai';
+import { CONFIG, getOpenAIKey } from './config';
+import { encodePng } from './png';
+
+export type ProviderName = 'openai' | 'compatible' | 'fake';
+
+export const PROVIDER_NAMES: ProviderName[] = ['openai', 'compatible', 'fake'];
+
+export interface ProviderSettings {
+  provider?: ProviderName;
+  baseUrl?: string;    // For "compatible": e.g. http://localhost:11434/v1 (Ollama)
+  model?: string;      // Chat/vision model
+  imageModel?: string; // Image generation model
+  embeddingModel?: string; // Text embedding model for semantic matching
+}
+
+/**
+ * Everything the tools ask of a language model. Implementations must not
+ * throw for "no answer" cases; they return null instead.
+ */
+export interface LLMProvider {
+  name: ProviderName;
+  model: string;
+  imageModel: string;
+  embeddingModel: string;
+  imageSeeds: boolean; // Whether generateImage honours a seed, so a result can be reproduced
+  describeIcon(imageUrl: string, prompt: string): Promise<string | null>;
+  chooseKeywords(trackTitles: string[], keywords: string[]): Promise<Array<string | null>>; // One answer per title, in order
+  generateImage(prompt: string, seed?: number): Promise<Buffer>;
+  embed(texts: string[]): Promise<number[][]>; // One vector per text, in order
+}
+
+export function buildKeywordPrompt(trackTitles: string[], keywords: string[]): string {
+  const titleList = trackTitles.map((title, i) => `${i + 1}. ${JSON.stringify(title)}`).join('\n');
+
+  return `For each track title below, find the most relevant keyword from this list: ${keywords.join(', ')}
+
+Use ONLY exact keywords from the list, or "none" if no good match exists.
+Consider semantic meaning, not just exact word matching.
+
+Examples:
+- "The Lion King" → lion
+- "Goodnight Moon" → moon
+- "Chocolate Cake Recipe" → chocolate
+- "Advanced Calculus" → none
+
+Track titles:
+${titleList}
+
+Reply with JSON only: {"matches": [one keyword or "none" per title, in order]}`;
+}
+
+// Reads the {"matches": [...]} reply; anything missing or unreadable counts as "none"
+export function parseKeywordAnswers(content: string | null | undefined, count: number): Array<string | null> {
+  const text = content || '';
+  let matches: unknown[] = [];
+  try {
+    // Some models wrap the JSON in prose or code fences
+    const parsed = JSON.parse(text.slice(text.indexOf('{'), text.lastIndexOf('}') + 1));
+    matches = Array.isArray(parsed.matches) ? parsed.matches : [];
+  } catch {
+    // Leave every answer empty
+  }
+
+  return Array.from({ length: count }, (_, i) => {
+    const answer = typeof matches[i] === 'string' ? (matches[i] as string).trim().toLowerCase() : '';
+    return answer && answer !== 'none' ? answer : null;
+  });
+}
+
+function createOpenAIProvider(
+  name: ProviderName,
+  client: OpenAI,
+  model: string,
+  imageModel: string,
+  embeddingModel: string
+): LLMProvider {
+  return {
+    name,
+    model,
+    imageModel,
+    embeddingModel,
+    // OpenAI's image models take no seed; local servers (e.g. Stable Diffusion behind an OpenAI-style API) usually do
+    imageSeeds: name === 'compatible',
+
+    async describeIcon(imageUrl: string, prompt: string): Promise<string | null> {
+      const response = await client.chat.completions.create({
+        model,
+        messages: [
+          {
+            role: 'user',
+            content: [
+              { type: 'text', text: prompt },
+              { type: 'image_url', image_url: { url: imageUrl } }
+            ]
+          }
+        ],
+        max_tokens: 10
+      });
+
+      return response.choices[0]?.message?.content?.trim() || null;
+    },
+
+    async chooseKeywords(trackTitles: string[], keywords: string[]): Promise<Array<string | null>> {
+      const response = await client.chat.completions.create({
+        model,
+        messages: [{ role: 'user', content: buildKeywordPrompt(trackTitles, keywords) }],
+        max_tokens: 20 + trackTitles.length * 15,
+        temperature: 0.1,
+        // Not every OpenAI-compatible server understands JSON mode; the prompt asks for JSON either way
+        ...(name === 'openai' ? { response_format: { type: 'json_object' as const } } : {})
+      });
+
+      return parseKeywordAnswers(response.choices[0]?.message?.content, trackTitles.length);
+    },
+
+    async generateImage(prompt: string, seed?: number): Promise<Buffer> {
+      const response = await client.images.generate({
+        model: imageModel,
+        prompt,
+        size: '1024x1024',
+        n: 1,
+        ...(imageModel === 'dall-e-3' ? { quality: 'standard' as const } : {}),
+        // Not part of OpenAI's API, so only sent where it is understood
+        ...(name === 'compatible' && seed !== undefined ? { seed } : {})
+      });
+
+      const image = response.data?.[0];
+      if (image?.b64_json) {
+        return Buffer.from(image.b64_json, 'base64');
+      }
+      if (!image?.url) {
+        throw new Error('No image returned from image model');
+      }
+
+      const imageResponse = await fetch(image.url);
+      if (!imageResponse.ok) {
+        throw new Error(`Failed to download image: ${imageResponse.status}`);
+      }
+      return Buffer.from(await imageResponse.arrayBuffer());
+    },
+
+    async embed(texts: string[]): Promise<number[][]> {
+      const response = await client.embeddings.create({ model: embeddingModel, input: texts });
+      return response.data.sort((a, b) => a.index - b.index).map(item => item.embedding);
+    }
+  };
+}
+
+const FAKE_EMBEDDING_SIZE = 256;
+const FAKE_LABELS = ['dog', 'cat', 'moon', 'sun', 'star', 'tree', 'cake', 'book', 'car', 'fish', 'bird', 'flower'];
+
+function hash(text: string): Buffer {
+  return crypto.createHash('sha256').update(text).digest();
+}
+
+/**
+ * Deterministic offline provider for tests and CI: the same input always
+ * yields the same answer, and no network access is needed.
+ */
+export function createFakeProvider(): LLMProvider {
+  return {
+    name: 'fake',
+    model: 'fake',
+    imageModel: 'fake',
+    embeddingModel: 'fake',
+    imageSeeds: true,
+
+    async describeIcon(imageUrl: string): Promise<string | null> {
+      return FAKE_LABELS[hash(imageUrl)[0] % FAKE_LABELS.length];
+    },
+
+    async chooseKeywords(trackTitles: string[], keywords: string[]): Promise<Array<string | null>> {
+      return trackTitles.map(trackTitle => {
+        const words = trackTitle.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(w => w);
+        return keywords.find(keyword => words.includes(keyword.toLowerCase().split('_')[0])) || null;
+      });
+    },
+
+    async generateImage(prompt: string, seed?: number): Promise<Buffer> {
+      // Solid colored square on a transparent border, colored by the prompt and seed hash
+      const [r, g, b] = hash(seed === undefined ? prompt : `${prompt}|${seed}`);
+      const size = 16;
+      const data = Buffer.alloc(size * size * 4);
+      for (let y = 2; y < size - 2; y++) {
+        for (let x = 2; x < size - 2; x++) {
+          data.set([r, g, b, 255], (y * size + x) * 4);
+        }
+      }
+      return encodePng({ width: size, height: size, data });
+    },
+
+    async embed(texts: string[]): Promise<number[][]> {
+      // Hashed words and letter trigrams, so texts sharing words or stems land close together
+      return texts.map(text => {
+        const vector = new Array(FAKE_EMBEDDING_SIZE).fill(0);
+        for (const word of text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(w => w)) {
+          const padded = ` ${word} `;
+          const features = [word, ...Array.from({ length: padded.length - 2 }, (_, i) => padded.slice(i, i + 3))];
+          features.forEach(feature => vector[hash(feature).readUInt16BE(0) % FAKE_EMBEDDING_SIZE]++);
+        }
+        const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1;
+        return vector.map(v => v / norm);
+      });
+    }
+  };
+}
+
+export function createProvider(settings: ProviderSettings = {}): LLMProvider {
+  const provider = settings.provider || (CONFIG.LLM_PROVIDER as ProviderName);
+  const model = settings.model || CONFIG.OPENAI_MODEL;
+  const imageModel = settings.imageModel || CONFIG.IMAGE_MODEL;
+  const embeddingModel = settings.embeddingModel || CONFIG.EMBEDDING_MODEL;
+
+  switch (provider) {
+    case 'openai':
+      return createOpenAIProvider('openai', new OpenAI({ apiKey: getOpenAIKey() }), model, imageModel, embeddingModel);
+    case 'compatible': {
+      const baseURL = settings.baseUrl || CONFIG.LLM_BASE_URL;
+      if (!baseURL) {
+        throw new Error('The "compatible" provider needs --base-url or LLM_BASE_URL');
+      }
+      // Local servers usually ignore the key, but the client requires one
+      const apiKey = process.env.LLM_API_KEY || process.env.OPENAI_API_KEY || 'not-needed';
+      return createOpenAIProvider('compatible', new OpenAI({ apiKey, baseURL }), model, imageModel, embeddingModel);
+    }
+    case 'fake':
+      return createFakeProvider();
+    default:
+      throw new Error(`Unknown LLM provider "${provider}" (expected: ${PROVIDER_NAMES.join(', ')})`);
+  }
+}
+
+let providerSettings: ProviderSettings = {};
+let activeProvider: LLMProvider | null = null;
+
+// Set once from command-line flags, before the first getProvider() call
+export function configureProvider(settings: ProviderSettings): void {
+  providerSettings = settings;
+  activeProvider = null;
+}
+
+export function getProvider(): LLMProvider {
+  if (!activeProvider) {
+    activeProvider = createProvider(providerSettings);
+  }
+  return activeProvider;
+}
+
+// Reads the shared --provider/--base-url/--model/--image-model flags
+export function parseProviderArgs(args: { [key: string]: any }): ProviderSettings {
+  const provider = args.provider as ProviderName | undefined;
+  if (provider && !PROVIDER_NAMES.includes(provider)) {
+    console.error(`❌ --provider must be one of: ${PROVIDER_NAMES.join(', ')}`);
+    process.exit(1);
+  }
+
+  return {
+    provider,
+    baseUrl: args['base-url'],
+    model: args.model,
+    imageModel: args['image-model'],
+    embeddingModel: args['embedding-model']
+  };
+}
+
+export const PROVIDER_USAGE = `  --provider <NAME>       LLM provider: ${PROVIDER_NAMES.join(', ')} (default: $LLM_PROVIDER or openai)
+  --base-url <URL>        Base URL for the "compatible" provider (e.g. http://localhost:11434/v1)
+  --model <MODEL>         Chat/vision model (default: ${CONFIG.OPENAI_MODEL})
+  --image-model <MODEL>   Image model (default: ${CONFIG.IMAGE_MODEL})
+  --embedding-model <M>   Embedding model (default: ${CONFIG.EMBEDDING_MODEL})`;
@@ -0,0 +1,89 @@
+#!/usr/bin/env node
+
+import minimist from 'minimist';
+import { CONFIG } from './config';
+import { getClientId, loadCredentials, startDeviceAuthorization, pollForToken, saveCredentials } from './auth';
+
+interface LoginOptions {
+  clientId?: string;
+  status: boolean;
+}
+
+function showStatus(): void {
+  const credentials = loadCredentials();
+  if (!credentials) {
+    console.log(`🔒 Not logged in (no credentials at ${CONFIG.CREDENTIALS_FILE})`);
+    return;
+  }
+
+  const expired = Date.parse(credentials.expiresAt) <= Date.now();
+  console.log(`🔑 Logged in with client ${credentials.clientId}`);
+  console.log(`  Access token ${expired ? 'expired' : 'expires'}: ${credentials.expiresAt}`);
+  console.log(`  Refresh token: ${credentials.refreshToken ? 'stored' : 'missing'}`);
+}
+
+async function runLogin(options: LoginOptions): Promise<void> {
+  if (options.status) {
+    showStatus();
+    return;
+  }
+
+  const clientId = getClientId(options.clientId);
+
+  console.log('🔑 Yoto Login - Device authorization');
+  const device = await startDeviceAuthorization(clientId);
+
+  console.log(`\n👉 Open ${device.verificationUriComplete || device.verificationUri}`);
+  console.log(`   and confirm the code: ${device.userCode}`);
+  console.log(`\n⏳ Waiting for approval (expires in ${Math.round(device.expiresIn / 60)} minutes)...`);
+
+  const credentials = await pollForToken(clientId, device.deviceCode, device.interval, device.expiresIn);
+  const filePath = saveCredentials(credentials);
+
+  console.log(`\n✅ Logged in! Credentials saved to ${filePath}`);
+  console.log('   Commands now work without --bearer; tokens refresh automatically.');
+}
+
+function parseArgs(): LoginOptions {
+  const args = minimist(process.argv.slice(2));
+
+  return {
+    clientId: args['client-id'],
+    status: args.status || false
+  };
+}
+
+function showUsage(): void {
+  console.log(`
+Usage: ts-node src/login.ts [options]
+
+Options:
+  --client-id <ID>        Yoto OAuth client ID (default: $YOTO_CLIENT_ID)
+  --status                Show the stored login instead of logging in
+
+Credentials are stored in ${CONFIG.CREDENTIALS_FILE} (override with $YOTO_CREDENTIALS_FILE).
+
+Examples:
+  ts-node src/login.ts --client-id $YOTO_CLIENT_ID
+  ts-node src/login.ts --status
+`);
+}
+
+async function main(): Promise<void> {
+  try {
+    if (process.argv.includes('--help') || process.argv.includes('-h')) {
+      showUsage();
+      process.exit(0);
+    }
+
+    const options = parseArgs();
+    await runLogin(options);
+  } catch (error) {
+    console.error(`❌ Login failed: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main();
+}
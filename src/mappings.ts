@@ -0,0 +1,121 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { getYotoIconIdsFile, getOrphanLabelsFile } from './config';
+import { IconCandidate, IconMappingStore, OrphanLabels, YotoIconMapping, Language } from './types';
+
+export function createIconStore(): IconMappingStore {
+  return { version: 2, keywords: {} };
+}
+
+// Accepts both the v2 store and the legacy flat `keyword -> "yoto:#id"` format
+export function normalizeIconStore(data: any): IconMappingStore {
+  if (data && data.version === 2 && data.keywords) {
+    return data as IconMappingStore;
+  }
+
+  const store = createIconStore();
+  for (const [keyword, iconId] of Object.entries(data || {})) {
+    if (typeof iconId === 'string') {
+      store.keywords[keyword] = [{ iconId, label: keyword }];
+    }
+  }
+  return store;
+}
+
+export function loadIconStore(language: Language): IconMappingStore {
+  const filePath = path.resolve(getYotoIconIdsFile(language));
+  const content = fs.readFileSync(filePath, 'utf-8');
+  return normalizeIconStore(JSON.parse(content));
+}
+
+export function saveIconStore(store: IconMappingStore, language: Language): string {
+  const filePath = path.resolve(getYotoIconIdsFile(language));
+  const dir = path.dirname(filePath);
+
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  fs.writeFileSync(filePath, JSON.stringify(store, null, 2), 'utf-8');
+  return filePath;
+}
+
+// Drop an icon from every keyword, e.g. before re-describing it
+export function removeIconFromStore(store: IconMappingStore, iconId: string): void {
+  for (const [keyword, candidates] of Object.entries(store.keywords)) {
+    const remaining = candidates.filter(c => c.iconId !== iconId);
+    if (remaining.length === 0) {
+      delete store.keywords[keyword];
+    } else {
+      store.keywords[keyword] = remaining;
+    }
+  }
+}
+
+export function addIconCandidate(store: IconMappingStore, keyword: string, candidate: IconCandidate): void {
+  const candidates = store.keywords[keyword] || [];
+  const existing = candidates.findIndex(c => c.iconId === candidate.iconId);
+
+  if (existing >= 0) {
+    candidates[existing] = candidate;
+  } else {
+    candidates.push(candidate);
+  }
+
+  store.keywords[keyword] = candidates;
+}
+
+// Flat view used by stats and lookups: each keyword's primary (first) icon
+export function toFlatMapping(store: IconMappingStore): YotoIconMapping {
+  const mapping: YotoIconMapping = {};
+  for (const [keyword, candidates] of Object.entries(store.keywords)) {
+    if (candidates.length > 0) {
+      mapping[keyword] = candidates[0].iconId;
+    }
+  }
+  return mapping;
+}
+
+export function countIcons(store: IconMappingStore): number {
+  return Object.values(store.keywords).reduce((sum, candidates) => sum + candidates.length, 0);
+}
+
+export function loadOrphanLabels(language: Language): OrphanLabels {
+  try {
+    const content = fs.readFileSync(path.resolve(getOrphanLabelsFile(language)), 'utf-8');
+    return JSON.parse(content);
+  } catch (error) {
+    return {};
+  }
+}
+
+export function saveOrphanLabels(orphans: OrphanLabels, language: Language): string {
+  const filePath = path.resolve(getOrphanLabelsFile(language));
+  const dir = path.dirname(filePath);
+
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  fs.writeFileSync(filePath, JSON.stringify(orphans, null, 2), 'utf-8');
+  return filePath;
+}
+
+export function removeIconFromOrphans(orphans: OrphanLabels, iconId: string): void {
+  for (const [label, iconIds] of Object.entries(orphans)) {
+    const remaining = iconIds.filter(id => id !== iconId);
+    if (remaining.length === 0) {
+      delete orphans[label];
+    } else {
+      orphans[label] = remaining;
+    }
+  }
+}
+
+export function addOrphanLabel(orphans: OrphanLabels, label: string, iconId: string): void {
+  const iconIds = orphans[label] || [];
+  if (!iconIds.includes(iconId)) {
+    iconIds.push(iconId);
+  }
+  orphans[label] = iconIds;
+}
@@ -1,292 +1,473 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import OpenAI from 'openai';
-import { CONFIG, getOpenAIKey, getYotoIconIdsFile, formatTextForDisplay } from './config';
-import { YotoSynonyms, YotoIconMapping } from './types';
-
-let synonymsCache: YotoSynonyms | null = null;
-let iconMappingsCache: YotoIconMapping | null = null;
-
-function loadSynonyms(language: 'english' | 'hebrew' = 'english'): YotoSynonyms {
-  if (synonymsCache) return synonymsCache;
-
-  try {
-    const filePath = language === 'hebrew'
-      ? path.resolve('./synonyms/hebrew.json')
-      : path.resolve(CONFIG.YOTO_ICONS_FILE);
-    const content = fs.readFileSync(filePath, 'utf-8');
-    synonymsCache = JSON.parse(content);
-    console.log(`📚 Loaded ${Object.keys(synonymsCache!).length} keyword categories`);
-    return synonymsCache!;
-  } catch (error) {
-    console.warn('⚠️  Could not load synonyms file:', error);
-    synonymsCache = {};
-    return synonymsCache;
+import { formatTextForDisplay, getLanguage, getLanguagesByPriority } from './languages';
+import { buildRankingIndex, rankKeywords, RankedCandidate, RankingIndex } from './ranking';
+import { loadIconStore, toFlatMapping } from './mappings';
+import {
+  YotoSynonyms,
+  YotoIconMapping,
+  IconMappingStore,
+  Language,
+  LanguageDefinition,
+  AffixRule,
+  TextNormalizer,
+  WordVariants
+} from './types';
+
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values.filter(value => value)));
+}
+
+const HEBREW_MARKS = /[\u0591-\u05BD\u05BF-\u05C2\u05C4-\u05C7]/g; // Cantillation and niqqud
+const HEBREW_MAQAF = /\u05BE/g;
+
+const HEBREW_FINAL_FORMS: { [letter: string]: string } = { 'כ': 'ך', 'מ': 'ם', 'נ': 'ן', 'פ': 'ף', 'צ': 'ץ' };
+const HEBREW_REGULAR_FORMS: { [letter: string]: string } = { 'ך': 'כ', 'ם': 'מ', 'ן': 'נ', 'ף': 'פ', 'ץ': 'צ' };
+
+// [ending, replacement, minimum letters left] - plural, possessive and construct endings
+const HEBREW_SUFFIXES: Array<[string, string, number]> = [
+  ['יים', '', 2], // ידיים → יד
+  ['ים', '', 2],  // כלבים → כלב
+  ['יות', 'ית', 2], // מכוניות → מכונית
+  ['ות', 'ה', 2], // בובות → בובה
+  ['ות', '', 2],  // חלונות → חלון
+  ['יו', '', 2],  // ספריו → ספר
+  ['נו', '', 2],  // ביתנו → בית
+  ['כם', '', 2],
+  ['כן', '', 2],
+  ['הם', '', 2],
+  ['הן', '', 2],
+  ['י', '', 3],   // ביתי → בית
+  ['ו', '', 3],   // ספרו → ספר
+  ['ך', '', 3],   // ביתך → בית
+  ['ת', 'ה', 3]   // מלכת → מלכה
+];
+
+function stripHebrewMarks(text: string): string {
+  return text.replace(HEBREW_MAQAF, ' ').replace(HEBREW_MARKS, '');
+}
+
+// Final forms only at the end of a word: עפרונ → עפרון, ךלב → כלב
+function fixFinalLetters(word: string): string {
+  const letters = Array.from(word).map(letter => HEBREW_REGULAR_FORMS[letter] || letter);
+  const last = letters.length - 1;
+  if (last > 0 && HEBREW_FINAL_FORMS[letters[last]]) {
+    letters[last] = HEBREW_FINAL_FORMS[letters[last]];
   }
+  return letters.join('');
 }
 
-export function loadIconMappings(language: 'english' | 'hebrew' = 'english'): YotoIconMapping {
-  try {
-    const filePath = path.resolve(getYotoIconIdsFile(language));
-    const content = fs.readFileSync(filePath, 'utf-8');
-    iconMappingsCache = JSON.parse(content);
-    const langDisplay = language === 'english' ? 'english' : formatTextForDisplay('עברית', language);
-    console.log(`🎨 Loaded ${Object.keys(iconMappingsCache!).length} ${langDisplay} icon mappings`);
-    return iconMappingsCache!;
-  } catch (error) {
-    const langDisplay = language === 'english' ? 'english' : formatTextForDisplay('עברית', language);
-    console.warn(`⚠️  Could not load ${langDisplay} icon mappings file. Run plan mode first:`, error);
-    iconMappingsCache = {};
-    return iconMappingsCache;
+function foldHebrewSuffixes(word: string): string[] {
+  const letters = Array.from(word);
+  return HEBREW_SUFFIXES
+    .filter(([ending, , minimum]) => word.endsWith(ending) && letters.length - ending.length >= minimum)
+    .map(([ending, replacement]) => fixFinalLetters(word.slice(0, -ending.length) + replacement));
+}
+
+/**
+ * Ktiv haser forms: the word with one inner ו or י left out (ציפור → צפור,
+ * עיפרון → עפרון). Only one letter goes, and never down to a three-letter
+ * root, where defective spelling is too ambiguous: שימש is not שמש.
+ */
+function defectiveSpellings(word: string): string[] {
+  const letters = Array.from(word);
+  if (letters.length < 5) return [];
+
+  const spellings: string[] = [];
+  for (let i = 1; i < letters.length - 1; i++) {
+    const letter = letters[i];
+    // A doubled וו/יי is a consonant, not a vowel letter
+    if ((letter === 'ו' || letter === 'י') && letters[i - 1] !== letter && letters[i + 1] !== letter) {
+      spellings.push([...letters.slice(0, i), ...letters.slice(i + 1)].join(''));
+    }
   }
+  return spellings;
 }
 
-export function reloadMappings(): YotoIconMapping {
-  iconMappingsCache = null;
-  return loadIconMappings();
+function hebrewVariants(text: string): WordVariants {
+  const words = text.split(' ');
+  const close = unique([text, words.map(fixFinalLetters).join(' ')]);
+  if (words.length > 1) {
+    return { close, loose: [] };
+  }
+
+  const word = close[close.length - 1];
+  const folded = foldHebrewSuffixes(word);
+  const loose = unique([...folded, ...[word, ...folded].flatMap(defectiveSpellings)]);
+  return { close, loose: loose.filter(variant => !close.includes(variant)) };
 }
 
-function normalizeText(text: string): string {
-  return text
-    .toLowerCase()
-    .trim()
-    // Remove punctuation and special characters
-    .replace(/[^\w\s\u0590-\u05FF]/g, ' ') // Keep Hebrew characters
-    .replace(/\s+/g, ' ')
-    .trim();
+interface LanguageNormalizer {
+  clean?(text: string): string; // Applied to whole titles and terms before tokenizing
+  variants(word: string): WordVariants;
 }
 
-function stripHebrewPrefixes(word: string): string[] {
-  // Just handle the most common cases: "the" (ה) and "and" (ו)
+// Normalizers a language definition can name in its "normalizer" field
+const LANGUAGE_NORMALIZERS: { [name: string]: LanguageNormalizer } = {
+  none: { variants: word => ({ close: [word], loose: [] }) },
+  hebrew: { clean: stripHebrewMarks, variants: hebrewVariants }
+};
+
+function stripPrefixes(word: string, rules: AffixRule[]): string[] {
   const variations = [word];
 
-  if (word.startsWith('ה') && word.length > 2) {
-    variations.push(word.substring(1)); // הציפור → ציפור
-  }
-  if (word.startsWith('ו') && word.length > 2) {
-    variations.push(word.substring(1)); // והדב → הדב
-  }
-  if (word.startsWith('וה') && word.length > 3) {
-    variations.push(word.substring(2)); // והדב → דב
+  for (const rule of rules) {
+    if (word.startsWith(rule.text) && Array.from(word).length >= rule.minLength) {
+      variations.push(word.substring(rule.text.length)); // והדב → דב
+    }
   }
 
   return variations;
 }
 
-function normalizeHebrewSpelling(text: string): string[] {
-  return [text]; // Simple implementation - just return the original text
-}
+export function createNormalizer(language: Language): TextNormalizer {
+  const definitions = getLanguagesByPriority(language);
+  const scripts = definitions.filter(d => d.script).map(d => ({ definition: d, pattern: new RegExp(`[${d.script}]`) }));
+  // Letters of every registered language survive normalization
+  const unwanted = new RegExp(`[^\\w\\s${definitions.map(d => d.script).join('')}]`, 'g');
 
-function extractKeywords(text: string): string[] {
-  const normalized = normalizeText(text);
-  const words = normalized.split(' ').filter(word => word.length > 1);
-
-  // Generate variations for Hebrew words (including prefix stripping)
-  const allVariations = [];
-  for (const word of words) {
-    if (/[\u0590-\u05FF]/.test(word)) { // Contains Hebrew characters
-      // Add original word
-      allVariations.push(word);
-      // Add prefix-stripped variations
-      allVariations.push(...stripHebrewPrefixes(word));
-      // Add spelling variations
-      allVariations.push(...normalizeHebrewSpelling(word));
-    } else {
-      allVariations.push(word);
+  for (const definition of definitions) {
+    if (!LANGUAGE_NORMALIZERS[definition.normalizer]) {
+      throw new Error(`Language "${definition.name}" names unknown normalizer "${definition.normalizer}"`);
     }
   }
+  const cleaners = definitions.map(d => LANGUAGE_NORMALIZERS[d.normalizer].clean).filter(clean => clean);
 
-  // Return full text, individual words, and all variations
-  return [normalized, ...words, ...allVariations];
-}
+  const normalize = (text: string): string => cleaners.reduce((result, clean) => clean!(result), text)
+    .toLowerCase()
+    .trim()
+    // Remove punctuation and special characters
+    .replace(unwanted, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
 
-function findBestKeywordMatch(searchTerms: string[], synonyms: YotoSynonyms): string | null {
-  let bestMatch: string | null = null;
-  let bestScore = 0;
+  // The language whose letters the text uses; this matcher's own comes first
+  const ownerOf = (text: string): LanguageDefinition =>
+    scripts.find(({ pattern }) => pattern.test(text))?.definition || definitions[0];
+
+  // The word's own variants, plus those of every stem left after removing a proclitic
+  const expand = (word: string, owner: LanguageDefinition, close: string[]): WordVariants => {
+    const normalizer = LANGUAGE_NORMALIZERS[owner.normalizer];
+    const own = normalizer.variants(word);
+    const stems = stripPrefixes(word, owner.prefixes).slice(1);
+    const allClose = unique([...close, ...own.close]);
+    const loose = unique([
+      ...own.loose,
+      ...stems.flatMap(stem => {
+        const variants = normalizer.variants(stem);
+        return [...variants.close, ...variants.loose];
+      })
+    ]);
+    return { close: allClose, loose: loose.filter(variant => !allClose.includes(variant)) };
+  };
 
-  // Check each keyword category
-  for (const [keyword, synonymList] of Object.entries(synonyms)) {
-    const allTerms = [keyword, ...synonymList];
+  return {
+    normalize,
 
-    for (const searchTerm of searchTerms) {
-      for (const term of allTerms) {
-        const normalizedTerm = normalizeText(term);
+    wordVariants(word: string): WordVariants {
+      const owner = ownerOf(word);
+      if (owner.prefixes.length === 0 && owner.normalizer === 'none') {
+        return { close: [word], loose: [] };
+      }
+      return expand(word, owner, [word]);
+    },
 
-        // Exact match (highest priority)
-        if (normalizedTerm === searchTerm) {
-          return keyword;
-        }
+    termVariants(term: string): WordVariants {
+      return LANGUAGE_NORMALIZERS[ownerOf(term).normalizer].variants(term);
+    },
 
-        // For Hebrew terms, also check spelling variations
-        if (/[\u0590-\u05FF]/.test(term)) {
-          const termVariations = normalizeHebrewSpelling(normalizedTerm);
-          for (const variation of termVariations) {
-            if (variation === searchTerm) {
-              return keyword; // Exact match with spelling variation
-            }
-          }
-        }
+    labelVariants(label: string): WordVariants {
+      const normalized = normalize(label.replace(/_/g, ' '));
+      const owner = ownerOf(normalized);
+      const close = [normalized];
 
-        // Contains match
-        if (normalizedTerm.includes(searchTerm) || searchTerm.includes(normalizedTerm)) {
-          const score = Math.max(normalizedTerm.length, searchTerm.length);
-          if (score > bestScore) {
-            bestScore = score;
-            bestMatch = keyword;
-          }
+      for (const rule of owner.labelSuffixes) {
+        if (normalized.endsWith(rule.text) && normalized.length >= rule.minLength) {
+          close.push(normalized.slice(0, -rule.text.length)); // dogs → dog
         }
       }
-    }
-  }
 
-  return bestMatch;
+      return expand(normalized, owner, close);
+    }
+  };
 }
 
-export function matchIcon(trackTitle: string, language: 'english' | 'hebrew' = 'english'): {
+export interface MatchOutcome {
   keyword: string | null;
   iconId: string | null;
   confidence: 'exact' | 'partial' | 'none';
   searchTerms: string[];
-} {
-  const synonyms = loadSynonyms(language);
-  const iconMappings = loadIconMappings(language);
+  score?: number;
+  relevance?: number;     // 0-100, share of the title the keyword explains
+  explanation?: string[]; // Why the keyword scored, one line per matched word
+}
 
-  const searchTerms = extractKeywords(trackTitle);
-  const keyword = findBestKeywordMatch(searchTerms, synonyms);
+/**
+ * Everything needed to match titles in one language: its synonyms, icon
+ * mappings and normalizer. Data loads lazily on first use and stays cached
+ * until reload(); matchers for different languages never share state.
+ */
+export class IconMatcher {
+  private synonyms: YotoSynonyms | null = null;
+  private store: IconMappingStore | null = null;
+  private mappings: YotoIconMapping | null = null;
+  private rankingIndex: RankingIndex | null = null;
+
+  constructor(
+    readonly language: Language,
+    readonly normalizer: TextNormalizer = createNormalizer(language)
+  ) {}
+
+  getSynonyms(): YotoSynonyms {
+    if (this.synonyms) return this.synonyms;
+
+    try {
+      const content = fs.readFileSync(path.resolve(getLanguage(this.language).synonymsFile), 'utf-8');
+      this.synonyms = JSON.parse(content) as YotoSynonyms;
+      console.log(`📚 Loaded ${Object.keys(this.synonyms).length} ${this.displayLanguage()} keyword categories`);
+    } catch (error) {
+      console.warn('⚠️  Could not load synonyms file:', error);
+      this.synonyms = {};
+    }
+    return this.synonyms;
+  }
 
-  if (!keyword) {
-    return {
-      keyword: null,
-      iconId: null,
-      confidence: 'none',
-      searchTerms
-    };
+  getMappings(): YotoIconMapping {
+    if (this.mappings) return this.mappings;
+
+    try {
+      this.store = loadIconStore(this.language);
+      this.mappings = toFlatMapping(this.store);
+      console.log(`🎨 Loaded ${Object.keys(this.mappings).length} ${this.displayLanguage()} icon mappings`);
+    } catch (error) {
+      console.warn(`⚠️  Could not load ${this.displayLanguage()} icon mappings file. Run plan mode first:`, error);
+      this.store = { version: 2, keywords: {} };
+      this.mappings = {};
+    }
+    return this.mappings;
   }
 
-  const iconId = iconMappings[keyword] || null;
-  const confidence = searchTerms.includes(normalizeText(keyword)) ? 'exact' : 'partial';
+  // Drops cached synonyms and mappings so the next call re-reads the files
+  reload(): void {
+    this.synonyms = null;
+    this.store = null;
+    this.mappings = null;
+    this.rankingIndex = null;
+  }
 
-  return {
-    keyword,
-    iconId,
-    confidence,
-    searchTerms
-  };
-}
+  private getStore(): IconMappingStore {
+    this.getMappings();
+    return this.store!;
+  }
 
-export function getAvailableKeywords(language: 'english' | 'hebrew' = 'english'): string[] {
-  const synonyms = loadSynonyms(language);
-  return Object.keys(synonyms);
-}
+  private displayLanguage(): string {
+    return formatTextForDisplay(getLanguage(this.language).displayName, this.language);
+  }
 
-export function getIconMappingStats(language: 'english' | 'hebrew' = 'english'): {
-  totalKeywords: number;
-  mappedKeywords: number;
-  unmappedKeywords: string[];
-} {
-  const synonyms = loadSynonyms(language);
-  const iconMappings = loadIconMappings(language);
+  /**
+   * Picks one of a keyword's candidate icons. Without a rotation map the primary
+   * icon is returned; with one, repeated keywords cycle through all candidates.
+   */
+  selectIcon(keyword: string, rotation?: Map<string, number>): string | null {
+    const candidates = this.getStore().keywords[keyword] || [];
+    if (candidates.length === 0) {
+      return this.getMappings()[keyword] || null;
+    }
 
-  const totalKeywords = Object.keys(synonyms).length;
-  const mappedKeywords = Object.keys(iconMappings).length;
-  const unmappedKeywords = Object.keys(synonyms).filter(
-    keyword => !iconMappings[keyword]
-  );
+    if (!rotation) {
+      return candidates[0].iconId;
+    }
 
-  return {
-    totalKeywords,
-    mappedKeywords,
-    unmappedKeywords
-  };
-}
+    const used = rotation.get(keyword) || 0;
+    rotation.set(keyword, used + 1);
+    return candidates[used % candidates.length].iconId;
+  }
 
-export function suggestMatches(trackTitle: string, limit: number = 3, language: 'english' | 'hebrew' = 'english'): Array<{
-  keyword: string;
-  iconId: string | null;
-  relevance: number;
-}> {
-  const synonyms = loadSynonyms(language);
-  const iconMappings = loadIconMappings(language);
+  findKeywordForIcon(iconId: string): string | null {
+    for (const [keyword, candidates] of Object.entries(this.getStore().keywords)) {
+      if (candidates.some(c => c.iconId === iconId)) {
+        return keyword;
+      }
+    }
+    return null;
+  }
+
+  getCandidateCount(keyword: string): number {
+    return this.getStore().keywords[keyword]?.length || 0;
+  }
+
+  extractKeywords(text: string): string[] {
+    const normalized = this.normalizer.normalize(text);
+    const words = normalized.split(' ').filter(word => word.length > 1);
+    const variants = words.map(word => this.normalizer.wordVariants(word));
+
+    // Return full text, individual words, and all variations
+    return [normalized, ...words, ...variants.flatMap(v => [...v.close, ...v.loose])];
+  }
 
-  const searchTerms = extractKeywords(trackTitle);
-  const suggestions: Array<{ keyword: string; iconId: string | null; relevance: number }> = [];
+  private getRankingIndex(): RankingIndex {
+    if (!this.rankingIndex) {
+      this.rankingIndex = buildRankingIndex(this.getSynonyms(), this.normalizer, getLanguage(this.language));
+    }
+    return this.rankingIndex;
+  }
+
+  // Every keyword that matches the title, best first, with the reasons for each score
+  rank(trackTitle: string, limit?: number): RankedCandidate[] {
+    return rankKeywords(trackTitle, this.getRankingIndex(), this.normalizer, limit);
+  }
 
-  for (const [keyword, synonymList] of Object.entries(synonyms)) {
-    const allTerms = [keyword, ...synonymList];
-    let maxRelevance = 0;
+  match(trackTitle: string, rotation?: Map<string, number>): MatchOutcome {
+    const searchTerms = this.extractKeywords(trackTitle);
+    const [best] = this.rank(trackTitle, 1);
+
+    if (!best) {
+      return {
+        keyword: null,
+        iconId: null,
+        confidence: 'none',
+        searchTerms
+      };
+    }
 
-    for (const searchTerm of searchTerms) {
-      for (const term of allTerms) {
-        const normalizedTerm = normalizeText(term);
+    const iconId = this.selectIcon(best.keyword, rotation);
+    const confidence = best.wholeWord ? 'exact' : 'partial';
 
-        if (normalizedTerm.includes(searchTerm) || searchTerm.includes(normalizedTerm)) {
-          const relevance = (Math.min(normalizedTerm.length, searchTerm.length) /
-                          Math.max(normalizedTerm.length, searchTerm.length)) * 100;
-          maxRelevance = Math.max(maxRelevance, relevance);
+    return {
+      keyword: best.keyword,
+      iconId,
+      confidence,
+      searchTerms,
+      score: best.score,
+      relevance: best.relevance,
+      explanation: best.reasons
+    };
+  }
+
+  /**
+   * Resolves a free-text Vision label ("pup", "dog face") to the canonical
+   * synonym-file keyword ("dog_face"). Keyword keys win over synonyms.
+   */
+  resolveKeyword(label: string): string | null {
+    const synonyms = this.getSynonyms();
+    const labelVariants = this.normalizer.labelVariants(label);
+    const spellings = (text: string, loose: boolean): string[] => {
+      const variants = this.normalizer.termVariants(this.normalizer.normalize(text.replace(/_/g, ' ')));
+      return loose ? [...variants.close, ...variants.loose] : variants.close;
+    };
+
+    // Close spellings first, then stems; keys before synonyms within each
+    for (const loose of [false, true]) {
+      const variants = loose ? [...labelVariants.close, ...labelVariants.loose] : labelVariants.close;
+      const matches = (text: string) => spellings(text, loose).some(spelling => variants.includes(spelling));
+
+      for (const keyword of Object.keys(synonyms)) {
+        if (matches(keyword)) {
+          return keyword;
         }
       }
-    }
 
-    if (maxRelevance > 0) {
-      suggestions.push({
-        keyword,
-        iconId: iconMappings[keyword] || null,
-        relevance: maxRelevance
-      });
+      for (const [keyword, synonymList] of Object.entries(synonyms)) {
+        if (synonymList.some(matches)) {
+          return keyword;
+        }
+      }
     }
+
+    return null;
+  }
+
+  getAvailableKeywords(): string[] {
+    return Object.keys(this.getSynonyms());
+  }
+
+  getStats(): { totalKeywords: number; mappedKeywords: number; unmappedKeywords: string[] } {
+    const synonyms = this.getSynonyms();
+    const iconMappings = this.getMappings();
+
+    return {
+      totalKeywords: Object.keys(synonyms).length,
+      mappedKeywords: Object.keys(iconMappings).length,
+      unmappedKeywords: Object.keys(synonyms).filter(keyword => !iconMappings[keyword])
+    };
   }
 
-  return suggestions
-    .sort((a, b) => b.relevance - a.relevance)
-    .slice(0, limit);
+  suggest(trackTitle: string, limit: number = 3): Array<{ keyword: string; iconId: string | null; relevance: number }> {
+    const iconMappings = this.getMappings();
+    return this.rank(trackTitle, limit).map(candidate => ({
+      keyword: candidate.keyword,
+      iconId: iconMappings[candidate.keyword] || null,
+      relevance: candidate.relevance
+    }));
+  }
 }
 
-export async function aiMatchKeyword(
-  trackTitle: string,
-  availableKeywords: string[]
-): Promise<{ keyword: string | null; confidence: number }> {
-  try {
-    const openai = new OpenAI({ apiKey: getOpenAIKey() });
+// One matcher per language, shared by the module-level helpers below
+const matchers = new Map<Language, IconMatcher>();
 
-    const keywordList = availableKeywords.slice(0, 100).join(', '); // Increase limit to catch more matches
+export function getMatcher(language: Language = 'english'): IconMatcher {
+  let matcher = matchers.get(language);
+  if (!matcher) {
+    matcher = new IconMatcher(language);
+    matchers.set(language, matcher);
+  }
+  return matcher;
+}
 
-    const prompt = `Given the track title "${trackTitle}", find the most relevant keyword from this list: ${keywordList}
+export function loadSynonyms(language: Language = 'english'): YotoSynonyms {
+  return getMatcher(language).getSynonyms();
+}
 
-Return ONLY the exact keyword from the list, or "none" if no good match exists.
-Consider semantic meaning, not just exact word matching.
+export function loadIconMappings(language: Language = 'english'): YotoIconMapping {
+  return getMatcher(language).getMappings();
+}
 
-Examples:
-- "The Lion King" → lion
-- "Goodnight Moon" → moon
-- "Chocolate Cake Recipe" → chocolate
-- "Advanced Calculus" → none
+// Re-reads one language's files, or every loaded language when none is given
+export function reloadMappings(language?: Language): void {
+  const targets = language ? [getMatcher(language)] : Array.from(matchers.values());
+  targets.forEach(matcher => matcher.reload());
+}
 
-Track title: "${trackTitle}"
-Best match:`;
+export function selectIcon(keyword: string, rotation?: Map<string, number>, language: Language = 'english'): string | null {
+  return getMatcher(language).selectIcon(keyword, rotation);
+}
 
-    const response = await openai.chat.completions.create({
-      model: CONFIG.OPENAI_MODEL,
-      messages: [{ role: 'user', content: prompt }],
-      max_tokens: 10,
-      temperature: 0.1
-    });
+export function findKeywordForIcon(iconId: string, language: Language = 'english'): string | null {
+  return getMatcher(language).findKeywordForIcon(iconId);
+}
 
-    const result = response.choices[0]?.message?.content?.trim().toLowerCase();
+export function getCandidateCount(keyword: string, language: Language = 'english'): number {
+  return getMatcher(language).getCandidateCount(keyword);
+}
 
-    if (!result || result === 'none') {
-      return { keyword: null, confidence: 0 };
-    }
+export function matchIcon(
+  trackTitle: string,
+  language: Language = 'english',
+  rotation?: Map<string, number>
+): MatchOutcome {
+  return getMatcher(language).match(trackTitle, rotation);
+}
 
-    // Verify the result is actually in our keyword list
-    if (availableKeywords.includes(result)) {
-      // Calculate confidence based on usage costs vs regular matching
-      const confidence = 75; // AI match confidence
-      return { keyword: result, confidence };
-    }
+export function resolveKeyword(label: string, language: Language = 'english'): string | null {
+  return getMatcher(language).resolveKeyword(label);
+}
 
-    return { keyword: null, confidence: 0 };
-  } catch (error) {
-    console.warn('⚠️  AI matching failed:', error);
-    return { keyword: null, confidence: 0 };
-  }
-}
\ No newline at end of file
+export function getAvailableKeywords(language: Language = 'english'): string[] {
+  return getMatcher(language).getAvailableKeywords();
+}
+
+export function getIconMappingStats(language: Language = 'english'): {
+  totalKeywords: number;
+  mappedKeywords: number;
+  unmappedKeywords: string[];
+} {
+  return getMatcher(language).getStats();
+}
+
+export function suggestMatches(trackTitle: string, limit: number = 3, language: Language = 'english'): Array<{
+  keyword: string;
+  iconId: string | null;
+  relevance: number;
+}> {
+  return getMatcher(language).suggest(trackTitle, limit);
+}
@@ -0,0 +1,149 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CONFIG } from './config';
+import { listLanguages } from './languages';
+import { getAvailableKeywords, selectIcon } from './matchIcon';
+import { toIconRef } from './yoto';
+import { IconOverride, IconOverridesFile, Language, MatchResult, YotoTrack } from './types';
+
+const OVERRIDE_STRINGS: Array<keyof IconOverride> = ['title', 'pattern', 'card', 'iconId', 'keyword', 'note'];
+
+// Throws with the file name and 1-based entry number when an entry cannot be used
+function checkOverrideEntry(override: any, where: string, isKnownKeyword: (keyword: string) => boolean): void {
+  if (!override || typeof override !== 'object' || Array.isArray(override)) {
+    throw new Error(`${where}: must be an object`);
+  }
+  for (const key of OVERRIDE_STRINGS) {
+    if (override[key] !== undefined && typeof override[key] !== 'string') {
+      throw new Error(`${where}: "${key}" must be a string`);
+    }
+  }
+  if (override.skip !== undefined && typeof override.skip !== 'boolean') {
+    throw new Error(`${where}: "skip" must be true or false`);
+  }
+
+  const targets = [override.iconId, override.keyword, override.skip].filter(value => value !== undefined);
+  if (!override.title && !override.pattern) {
+    throw new Error(`${where}: needs "title" or "pattern"`);
+  }
+  if (targets.length !== 1) {
+    throw new Error(`${where}: needs exactly one of "iconId", "keyword" or "skip"`);
+  }
+  if (override.pattern) {
+    try {
+      new RegExp(override.pattern, 'i');
+    } catch (error) {
+      throw new Error(`${where}: invalid pattern ${override.pattern}`);
+    }
+  }
+  if (override.keyword !== undefined && !isKnownKeyword(override.keyword)) {
+    throw new Error(`${where}: unknown keyword "${override.keyword}" (not in any synonyms file)`);
+  }
+}
+
+/**
+ * Reads overrides.json, or an empty list without it. Throws on a file that
+ * is not valid JSON, has no "overrides" list, or has an entry that cannot
+ * be used, such as a keyword no language's synonyms know.
+ */
+export function loadOverrides(): IconOverridesFile {
+  const filePath = path.resolve(CONFIG.OVERRIDES_FILE);
+  if (!fs.existsSync(filePath)) {
+    return { version: 1, overrides: [] };
+  }
+
+  const where = path.basename(filePath);
+  let data: any;
+  try {
+    data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`${where}: not valid JSON (${error instanceof Error ? error.message : error})`);
+  }
+  if (!data || !Array.isArray(data.overrides)) {
+    throw new Error(`${where}: "overrides" must be a list of entries`);
+  }
+
+  // Overrides are shared by all languages, so a keyword only has to exist in one of them
+  let keywords: Set<string> | null = null;
+  const isKnownKeyword = (keyword: string) => {
+    keywords = keywords || new Set(listLanguages().flatMap(language => getAvailableKeywords(language)));
+    return keywords.has(keyword);
+  };
+  data.overrides.forEach((override: unknown, i: number) => checkOverrideEntry(override, `${where} entry ${i + 1}`, isKnownKeyword));
+  return data as IconOverridesFile;
+}
+
+export function saveOverrides(file: IconOverridesFile): string {
+  const filePath = path.resolve(CONFIG.OVERRIDES_FILE);
+  fs.writeFileSync(filePath, JSON.stringify(file, null, 2) + '\n', 'utf-8');
+  return filePath;
+}
+
+// Accepts "yoto:#id", an icon URL or a bare ID
+export function normalizeIconId(iconId: string): string {
+  const ref = toIconRef(iconId.trim());
+  return ref.startsWith('yoto:#') || ref.includes('://') ? ref : `yoto:#${ref}`;
+}
+
+function sameTitle(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+/**
+ * The override for a track, if any. Card-specific entries beat global
+ * ones, exact titles beat patterns, and otherwise the first entry wins.
+ */
+export function findOverride(
+  overrides: IconOverride[],
+  track: YotoTrack,
+  cardId: string
+): IconOverride | null {
+  const applicable = overrides.filter(o => !o.card || o.card === cardId);
+  const rank = (o: IconOverride) => (o.card ? 0 : 2) + (o.title ? 0 : 1);
+
+  const matching = applicable
+    .filter(o => (o.title ? sameTitle(o.title, track.title) : new RegExp(o.pattern!, 'i').test(track.title)))
+    .sort((a, b) => rank(a) - rank(b));
+  return matching[0] || null;
+}
+
+function describeOverride(override: IconOverride): string {
+  const target = override.title ? `title "${override.title}"` : `pattern /${override.pattern}/`;
+  return `override: ${target}${override.card ? ` on card ${override.card}` : ''}${override.note ? ` (${override.note})` : ''}`;
+}
+
+export function overrideMatch(
+  override: IconOverride,
+  track: YotoTrack,
+  language: Language,
+  rotation?: Map<string, number>
+): MatchResult {
+  const explanation = [describeOverride(override)];
+
+  if (override.skip) {
+    return { track, keyword: null, iconId: null, confidence: 'override', searchTerms: [], explanation: [...explanation, 'never set an icon'] };
+  }
+
+  if (override.keyword) {
+    const iconId = selectIcon(override.keyword, rotation, language);
+    if (!iconId) {
+      explanation.push(`keyword ${override.keyword} has no icon`);
+    }
+    return { track, keyword: override.keyword, iconId, confidence: 'override', searchTerms: [], explanation };
+  }
+
+  return { track, keyword: null, iconId: normalizeIconId(override.iconId!), confidence: 'override', searchTerms: [], explanation };
+}
+
+/**
+ * Adds or replaces the exact-title entry for a track, so a correction made
+ * during review sticks on later runs.
+ */
+export function addOverride(entry: IconOverride): string {
+  const file = loadOverrides();
+  file.overrides = file.overrides.filter(o =>
+    !(o.title && entry.title && sameTitle(o.title, entry.title) && (o.card || null) === (entry.card || null))
+  );
+  file.overrides.push(entry);
+  return saveOverrides(file);
+}
@@ -0,0 +1,300 @@
+import { CONFIG } from './config';
+import { RgbaImage } from './png';
+
+type Rgb = [number, number, number];
+
+export interface PixelArtOptions {
+  size: number;                // Output width and height
+  colors: number;              // Palette size after reduction
+  backgroundTolerance: number; // RGB distance still counted as background
+  margin: number;              // Transparent output pixels kept around the subject
+}
+
+export const DEFAULT_PIXEL_ART_OPTIONS: PixelArtOptions = {
+  size: CONFIG.PIXEL_ART_SIZE,
+  colors: CONFIG.PIXEL_ART_COLORS,
+  backgroundTolerance: CONFIG.PIXEL_ART_BACKGROUND_TOLERANCE,
+  margin: CONFIG.PIXEL_ART_MARGIN
+};
+
+function pixel(image: RgbaImage, index: number): Rgb {
+  return [image.data[index * 4], image.data[index * 4 + 1], image.data[index * 4 + 2]];
+}
+
+function distance(a: Rgb, b: Rgb): number {
+  return Math.sqrt((a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2);
+}
+
+/**
+ * The colours the border is mostly made of. Generators often paint a
+ * gradient or a fake transparency checkerboard instead of real alpha, so
+ * every colour covering a fair share of the border counts.
+ */
+function backgroundColors(image: RgbaImage): Rgb[] {
+  const { width, height } = image;
+  const buckets = new Map<number, { sum: Rgb; count: number }>();
+  let total = 0;
+
+  const add = (x: number, y: number) => {
+    const i = y * width + x;
+    if (image.data[i * 4 + 3] < 128) return;
+    const [r, g, b] = pixel(image, i);
+    const key = ((r >> 4) << 8) | ((g >> 4) << 4) | (b >> 4);
+    const bucket = buckets.get(key) || { sum: [0, 0, 0] as Rgb, count: 0 };
+    bucket.sum = [bucket.sum[0] + r, bucket.sum[1] + g, bucket.sum[2] + b];
+    bucket.count++;
+    buckets.set(key, bucket);
+    total++;
+  };
+
+  for (let x = 0; x < width; x++) {
+    add(x, 0);
+    add(x, height - 1);
+  }
+  for (let y = 1; y < height - 1; y++) {
+    add(0, y);
+    add(width - 1, y);
+  }
+
+  return Array.from(buckets.values())
+    .filter(bucket => bucket.count >= total * 0.05)
+    .map(bucket => bucket.sum.map(channel => channel / bucket.count) as Rgb);
+}
+
+// Square windows of `radius`: erode keeps pixels whose whole window is set, dilate sets any with one set
+function boxFilter(mask: Uint8Array, width: number, height: number, radius: number, erode: boolean): Uint8Array {
+  const pass = (input: Uint8Array, horizontal: boolean) => {
+    const output = new Uint8Array(input.length);
+    const lines = horizontal ? height : width;
+    const length = horizontal ? width : height;
+    const at = (line: number, pos: number) => (horizontal ? line * width + pos : pos * width + line);
+
+    for (let line = 0; line < lines; line++) {
+      // Running count of set pixels in the window; positions off the image count as unset
+      let count = 0;
+      for (let pos = 0; pos < Math.min(radius, length); pos++) count += input[at(line, pos)];
+      for (let pos = 0; pos < length; pos++) {
+        if (pos + radius < length) count += input[at(line, pos + radius)];
+        if (pos - radius - 1 >= 0) count -= input[at(line, pos - radius - 1)];
+        output[at(line, pos)] = erode ? +(count === 2 * radius + 1) : +(count > 0);
+      }
+    }
+    return output;
+  };
+  return pass(pass(mask, true), false);
+}
+
+// Drops parts of the mask thinner than about 2×radius; what survives keeps its exact edges
+function removeThinParts(mask: Uint8Array, width: number, height: number, radius: number): Uint8Array {
+  if (radius < 1) return mask;
+  const opened = boxFilter(boxFilter(mask, width, height, radius, true), width, height, radius, false);
+  return opened.map((value, i) => value & mask[i]);
+}
+
+/**
+ * Marks the subject: everything except background reachable from the
+ * border. Strokes thinner than about 2×detailRadius (grid lines of a fake
+ * checkerboard, stray marks) are treated as background first, so they
+ * neither wall the background in nor stretch the crop. Background colours
+ * enclosed by the subject (the gap between glasses, a window) stay opaque.
+ */
+export function subjectMask(image: RgbaImage, tolerance: number, detailRadius: number = 0): Uint8Array {
+  const { width, height } = image;
+  const colors = backgroundColors(image);
+  const solid = new Uint8Array(width * height);
+  for (let i = 0; i < solid.length; i++) {
+    const isBackground = image.data[i * 4 + 3] < 128 || colors.some(color => distance(pixel(image, i), color) <= tolerance);
+    solid[i] = isBackground ? 0 : 1;
+  }
+  const walls = removeThinParts(solid, width, height, detailRadius);
+
+  const mask = new Uint8Array(width * height).fill(1);
+  const stack: number[] = [];
+  const visit = (i: number) => {
+    if (mask[i] && !walls[i]) {
+      mask[i] = 0;
+      stack.push(i);
+    }
+  };
+
+  for (let x = 0; x < width; x++) {
+    visit(x);
+    visit((height - 1) * width + x);
+  }
+  for (let y = 0; y < height; y++) {
+    visit(y * width);
+    visit(y * width + width - 1);
+  }
+
+  while (stack.length > 0) {
+    const i = stack.pop()!;
+    const x = i % width;
+    if (x > 0) visit(i - 1);
+    if (x < width - 1) visit(i + 1);
+    if (i >= width) visit(i - width);
+    if (i < width * (height - 1)) visit(i + width);
+  }
+
+  return mask;
+}
+
+// Square around the subject's bounding box, centred, with room for the margin
+function subjectSquare(mask: Uint8Array, width: number, height: number, options: PixelArtOptions) {
+  let minX = width, minY = height, maxX = -1, maxY = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!mask[y * width + x]) continue;
+      minX = Math.min(minX, x);
+      maxX = Math.max(maxX, x);
+      minY = Math.min(minY, y);
+      maxY = Math.max(maxY, y);
+    }
+  }
+  if (maxX < 0) {
+    throw new Error('no subject found - the whole image looks like background');
+  }
+
+  const inner = Math.max(maxX - minX + 1, maxY - minY + 1);
+  const side = inner * options.size / Math.max(1, options.size - 2 * options.margin);
+  return {
+    x: (minX + maxX + 1) / 2 - side / 2,
+    y: (minY + maxY + 1) / 2 - side / 2,
+    side
+  };
+}
+
+/**
+ * Median cut over the subject's pixels: the box with the widest channel
+ * is split at its median until there are enough boxes, and each box
+ * becomes its average colour. Sampling is on a fixed grid, so the same
+ * image always gives the same palette.
+ */
+export function medianCutPalette(pixels: Rgb[], colors: number): Rgb[] {
+  if (pixels.length === 0) return [];
+
+  const spread = (box: Rgb[]) => {
+    let best = { channel: 0, range: -1 };
+    for (let channel = 0; channel < 3; channel++) {
+      const values = box.map(p => p[channel]);
+      const range = Math.max(...values) - Math.min(...values);
+      if (range > best.range) best = { channel, range };
+    }
+    return best;
+  };
+
+  const boxes: Rgb[][] = [pixels];
+  while (boxes.length < colors) {
+    const scored = boxes.map((box, i) => ({ i, ...spread(box) })).filter(s => s.range > 0 && boxes[s.i].length > 1);
+    if (scored.length === 0) break;
+    const widest = scored.reduce((a, b) => (b.range * boxes[b.i].length > a.range * boxes[a.i].length ? b : a));
+
+    const box = boxes[widest.i].slice().sort((a, b) => a[widest.channel] - b[widest.channel]);
+    const middle = Math.floor(box.length / 2);
+    boxes.splice(widest.i, 1, box.slice(0, middle), box.slice(middle));
+  }
+
+  return boxes.map(box => {
+    const sum = box.reduce((acc, p) => [acc[0] + p[0], acc[1] + p[1], acc[2] + p[2]] as Rgb, [0, 0, 0] as Rgb);
+    return sum.map(channel => Math.round(channel / box.length)) as Rgb;
+  });
+}
+
+function nearest(color: Rgb, palette: Rgb[]): Rgb {
+  return palette.reduce((best, candidate) => (distance(color, candidate) < distance(color, best) ? candidate : best));
+}
+
+/**
+ * Turns a large generated image into a true pixel-art icon: background
+ * removed to transparency, cropped to the subject, averaged down to
+ * size×size cells (a cell is transparent unless the subject covers at
+ * least half of it) and snapped to a reduced palette. Deterministic.
+ */
+export function toPixelArt(image: RgbaImage, options: PixelArtOptions = DEFAULT_PIXEL_ART_OPTIONS): RgbaImage {
+  const { width, height } = image;
+  const { size } = options;
+  const detailRadius = Math.floor(Math.min(width, height) / CONFIG.PIXEL_ART_DETAIL_DIVISOR);
+  const mask = subjectMask(image, options.backgroundTolerance, detailRadius);
+  const square = subjectSquare(mask, width, height, options);
+
+  // At most ~64K samples, so big images don't slow the palette down
+  const step = Math.max(1, Math.floor(Math.sqrt((width * height) / 65536)));
+  const samples: Rgb[] = [];
+  for (let y = 0; y < height; y += step) {
+    for (let x = 0; x < width; x += step) {
+      if (mask[y * width + x]) samples.push(pixel(image, y * width + x));
+    }
+  }
+  const palette = medianCutPalette(samples, options.colors);
+
+  const out: RgbaImage = { width: size, height: size, data: Buffer.alloc(size * size * 4) };
+  const cell = square.side / size;
+
+  for (let ty = 0; ty < size; ty++) {
+    const y0 = Math.floor(square.y + ty * cell);
+    const y1 = Math.max(y0 + 1, Math.floor(square.y + (ty + 1) * cell));
+
+    for (let tx = 0; tx < size; tx++) {
+      const x0 = Math.floor(square.x + tx * cell);
+      const x1 = Math.max(x0 + 1, Math.floor(square.x + (tx + 1) * cell));
+
+      let covered = 0;
+      const sum: Rgb = [0, 0, 0];
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) {
+          // Cells hanging over the image edge count as background there
+          if (x < 0 || y < 0 || x >= width || y >= height || !mask[y * width + x]) continue;
+          const [r, g, b] = pixel(image, y * width + x);
+          sum[0] += r;
+          sum[1] += g;
+          sum[2] += b;
+          covered++;
+        }
+      }
+
+      if (covered * 2 < (y1 - y0) * (x1 - x0)) continue;
+      const color = nearest(sum.map(channel => channel / covered) as Rgb, palette);
+      out.data.set([...color, 255], (ty * size + tx) * 4);
+    }
+  }
+
+  return out;
+}
+
+/**
+ * Lays icons out in a grid, scaled up with hard pixel edges over a grey
+ * checkerboard so transparency shows. Icons go left to right, top to
+ * bottom, in the order given.
+ */
+export function buildPreviewSheet(icons: RgbaImage[], scale: number = CONFIG.PIXEL_ART_PREVIEW_SCALE): RgbaImage {
+  const columns = Math.max(1, Math.ceil(Math.sqrt(icons.length)));
+  const rows = Math.max(1, Math.ceil(icons.length / columns));
+  const tile = Math.max(1, ...icons.map(icon => Math.max(icon.width, icon.height))) * scale;
+  const gap = scale;
+
+  const width = columns * tile + (columns + 1) * gap;
+  const height = rows * tile + (rows + 1) * gap;
+  const sheet: RgbaImage = { width, height, data: Buffer.alloc(width * height * 4, 255) };
+
+  icons.forEach((icon, n) => {
+    const left = gap + (n % columns) * (tile + gap);
+    const top = gap + Math.floor(n / columns) * (tile + gap);
+
+    for (let y = 0; y < tile; y++) {
+      for (let x = 0; x < tile; x++) {
+        const sx = Math.floor(x / scale);
+        const sy = Math.floor(y / scale);
+        const checker = ((Math.floor(x / (scale * 2)) + Math.floor(y / (scale * 2))) % 2) ? 204 : 238;
+        let color: Rgb = [checker, checker, checker];
+
+        if (sx < icon.width && sy < icon.height) {
+          const i = (sy * icon.width + sx) * 4;
+          const alpha = icon.data[i + 3] / 255;
+          color = [0, 1, 2].map(c => Math.round(icon.data[i + c] * alpha + checker * (1 - alpha))) as Rgb;
+        }
+        sheet.data.set([...color, 255], ((top + y) * width + left + x) * 4);
+      }
+    }
+  });
+
+  return sheet;
+}
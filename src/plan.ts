@@ -1,214 +1,290 @@
 #!/usr/bin/env node
 
-import * as fs from 'fs';
-import * as path from 'path';
 import minimist from 'minimist';
-import OpenAI from 'openai';
-import { CONFIG, LANGUAGE_PROMPTS, getOpenAIKey, getYotoIconIdsFile } from './config';
-import { PlanOptions, VisionResult, YotoIconMapping, Language, YotoSynonyms } from './types';
+import { CONFIG, getOrphanLabelsFile, getPlanStateFile, getYotoIconIdsFile } from './config';
+import { getLanguage, isRtlLanguage, listLanguages, parseLanguageArg } from './languages';
+import { LLMProvider, configureProvider, getProvider, parseProviderArgs, PROVIDER_USAGE } from './llm';
+import { loadSynonyms, resolveKeyword } from './matchIcon';
+import { loadIconIds } from './iconCache';
+import {
+  loadIconStore,
+  saveIconStore,
+  createIconStore,
+  addIconCandidate,
+  removeIconFromStore,
+  countIcons,
+  loadOrphanLabels,
+  saveOrphanLabels,
+  addOrphanLabel,
+  removeIconFromOrphans
+} from './mappings';
+import {
+  countPlanStates,
+  loadPlanState,
+  normalizePlanIconId,
+  recordPlanAttempt,
+  savePlanState,
+  seedPlanState,
+  selectPlanIcons
+} from './planState';
+import { PlanOptions, PlanSelection, PlanState, VisionResult, IconMappingStore, Language, OrphanLabels } from './types';
 
 async function sleep(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms));
 }
 
 async function processIconWithVision(
-  openai: OpenAI,
+  provider: LLMProvider,
   iconId: string,
   language: Language
 ): Promise<VisionResult> {
   try {
     const iconUrl = `${CONFIG.YOTO_ICON_URL}/${iconId}`;
-    const prompt = LANGUAGE_PROMPTS[language];
+    const prompt = getLanguage(language).visionPrompt;
 
     console.log(`Processing icon ${iconId}...`);
 
-    const response = await openai.chat.completions.create({
-      model: CONFIG.OPENAI_MODEL,
-      messages: [
-        {
-          role: 'user',
-          content: [
-            { type: 'text', text: prompt },
-            {
-              type: 'image_url',
-              image_url: { url: iconUrl }
-            }
-          ]
-        }
-      ],
-      max_tokens: 10
-    });
+    const description = await provider.describeIcon(iconUrl, prompt);
+    const label = description?.toLowerCase().replace(/[.!'"]+$/, '');
 
-    const keyword = response.choices[0]?.message?.content?.trim().toLowerCase();
-
-    if (!keyword) {
+    if (!label) {
       throw new Error('No keyword returned from Vision API');
     }
 
     // RTL support: ensure proper display direction
-    const displayKeyword = language === 'hebrew' ? `\u202B${keyword}\u202C` : keyword;
-    console.log(`  → ${displayKeyword}`);
+    const displayLabel = isRtlLanguage(language) ? `\u202B${label}\u202C` : label;
+    console.log(`  → ${displayLabel}`);
 
     return {
       iconId,
-      keyword,
+      label,
       success: true
     };
   } catch (error) {
     console.error(`  ✗ Error processing ${iconId}:`, error);
     return {
       iconId,
-      keyword: '',
+      label: '',
       success: false,
       error: error instanceof Error ? error.message : 'Unknown error'
     };
   }
 }
 
-async function loadIconIds(): Promise<string[]> {
-  const filePath = path.resolve(CONFIG.ICON_IDS_FILE);
-  const content = fs.readFileSync(filePath, 'utf-8');
-  return content.trim().split('\n').filter(line => line.trim());
+function formatLabel(text: string, language: Language): string {
+  const { rtl, script } = getLanguage(language);
+  return rtl && new RegExp(`[${script}]`).test(text)
+    ? `\u202B${text}\u202C`
+    : text;
 }
 
-async function loadExistingMappings(language: Language): Promise<YotoIconMapping> {
+async function loadExistingMappings(language: Language): Promise<IconMappingStore> {
   try {
-    const filePath = path.resolve(getYotoIconIdsFile(language));
-    const content = fs.readFileSync(filePath, 'utf-8');
-    return JSON.parse(content);
+    return loadIconStore(language);
   } catch (error) {
     console.log('No existing mappings found, starting fresh...');
-    return {};
+    return createIconStore();
   }
 }
 
-async function loadSynonyms(): Promise<YotoSynonyms> {
-  try {
-    const filePath = path.resolve(CONFIG.YOTO_ICONS_FILE);
-    const content = fs.readFileSync(filePath, 'utf-8');
-    return JSON.parse(content);
-  } catch (error) {
-    console.warn('⚠️  Could not load synonyms file:', error);
-    return {};
-  }
+// Saved after every icon, so an interrupted run loses at most the icon in flight
+function saveProgress(mappings: IconMappingStore, orphans: OrphanLabels, state: PlanState, language: Language): void {
+  saveIconStore(mappings, language);
+  saveOrphanLabels(orphans, language);
+  savePlanState(state, language);
 }
 
-async function saveMappings(mappings: YotoIconMapping, language: Language): Promise<void> {
-  const filePath = path.resolve(getYotoIconIdsFile(language));
-  const dir = path.dirname(filePath);
+function loadOrCreatePlanState(mappings: IconMappingStore, orphans: OrphanLabels, language: Language): PlanState {
+  const state = loadPlanState(language);
+  if (state) return state;
 
-  if (!fs.existsSync(dir)) {
-    fs.mkdirSync(dir, { recursive: true });
+  const seeded = seedPlanState(mappings, orphans);
+  if (Object.keys(seeded.icons).length > 0) {
+    console.log(`📒 No plan state yet - counting the ${Object.keys(seeded.icons).length} icons already mapped as done`);
   }
-
-  fs.writeFileSync(filePath, JSON.stringify(mappings, null, 2), 'utf-8');
-  console.log(`\nSaved mappings to ${filePath}`);
+  return seeded;
 }
 
 async function runPlanMode(options: PlanOptions): Promise<void> {
-  const openai = new OpenAI({ apiKey: getOpenAIKey() });
+  const provider = getProvider();
 
-  console.log(`🔍 Plan Mode - Language: ${options.language}`);
+  console.log(`🔍 Plan Mode - Language: ${options.language} - Provider: ${provider.name} (${provider.model})`);
   console.log('Loading icon IDs...');
 
-  const iconIds = await loadIconIds();
+  const iconIds = loadIconIds();
   const existingMappings = await loadExistingMappings(options.language);
-  const synonyms = await loadSynonyms();
+  const synonyms = loadSynonyms(options.language);
+  const orphans = loadOrphanLabels(options.language);
+  const state = loadOrCreatePlanState(existingMappings, orphans, options.language);
 
   console.log(`Found ${iconIds.length} icon IDs`);
-  console.log(`Existing mappings: ${Object.keys(existingMappings).length}`);
+  console.log(`Existing mappings: ${Object.keys(existingMappings.keywords).length} keywords, ${countIcons(existingMappings)} icons`);
   console.log(`Available synonym categories: ${Object.keys(synonyms).length}`);
+  const counts = countPlanStates(iconIds, state);
+  console.log(`Plan state: ${counts.done} done, ${counts.failed} failed, ${counts.new} new (${getPlanStateFile(options.language)})`);
+
+  const unknown = (options.redo || []).filter(id => !iconIds.includes(id));
+  if (unknown.length > 0) {
+    console.log(`⚠️  Not in ${CONFIG.ICON_IDS_FILE}, skipped: ${unknown.join(', ')}`);
+  }
 
   const startIndex = options.startFrom || 0;
   const batchSize = options.batchSize || CONFIG.DEFAULT_BATCH_SIZE;
+  const selected = selectPlanIcons(iconIds.slice(startIndex), state, options.selection, options.redo);
 
   let processedCount = 0;
   let successCount = 0;
+  let orphanCount = 0;
 
-  console.log(`\nStarting from index ${startIndex}, batch size: ${batchSize}\n`);
-
-  for (let i = startIndex; i < iconIds.length; i += batchSize) {
-    const batch = iconIds.slice(i, Math.min(i + batchSize, iconIds.length));
-    const batchResults: VisionResult[] = [];
+  if (selected.length === 0) {
+    savePlanState(state, options.language);
+    console.log(`\n✅ No icons to describe (${options.selection})`);
+    if (counts.failed > 0 && options.selection !== 'retry-failed') {
+      console.log(`💡 ${counts.failed} icons failed earlier - rerun with --retry-failed`);
+    }
+    return;
+  }
 
-    console.log(`Processing batch ${Math.floor(i / batchSize) + 1} (${batch.length} icons)...`);
+  console.log(`\nDescribing ${selected.length} icons (${options.selection}), starting from index ${startIndex}, batch size: ${batchSize}\n`);
 
-    for (const iconId of batch) {
-      const result = await processIconWithVision(openai, iconId, options.language);
-      batchResults.push(result);
+  // Everything up to the last finished icon is already on disk
+  const onInterrupt = () => {
+    console.log(`\n⏹️  Interrupted after ${processedCount}/${selected.length} icons - progress is saved, rerun to continue`);
+    process.exit(130);
+  };
+  process.once('SIGINT', onInterrupt);
 
-      if (result.success) {
-        successCount++;
-        existingMappings[result.keyword] = `yoto:#${result.iconId}`;
+  try {
+    for (let i = 0; i < selected.length; i += batchSize) {
+      const batch = selected.slice(i, Math.min(i + batchSize, selected.length));
+
+      console.log(`Processing batch ${Math.floor(i / batchSize) + 1} (${batch.length} icons)...`);
+
+      for (const iconId of batch) {
+        const result = await processIconWithVision(provider, iconId, options.language);
+
+        if (!result.success) {
+          const entry = recordPlanAttempt(state, iconId, provider.model, { error: result.error || 'Unknown error' });
+          console.log(`    📒 Attempt ${entry.attempts} failed - recorded for --retry-failed`);
+        } else {
+          successCount++;
+          const mappedId = `yoto:#${result.iconId}`;
+          // An icon belongs to one keyword; re-describing it replaces the old entry
+          removeIconFromStore(existingMappings, mappedId);
+          removeIconFromOrphans(orphans, mappedId);
+
+          const keyword = resolveKeyword(result.label, options.language);
+          recordPlanAttempt(state, iconId, provider.model, { label: result.label, keyword });
+          if (!keyword) {
+            orphanCount++;
+            addOrphanLabel(orphans, result.label, mappedId);
+            console.log(`    ⚠️  No synonym category for this label - recorded as orphan`);
+          } else {
+            addIconCandidate(existingMappings, keyword, {
+              iconId: mappedId,
+              label: result.label,
+              model: provider.model,
+              createdAt: new Date().toISOString()
+            });
+
+            if (keyword !== result.label) {
+              console.log(`    🔗 Keyword: ${formatLabel(keyword, options.language)}`);
+            }
 
-        // Show synonyms if available
-        const keywordSynonyms = synonyms[result.keyword];
-        if (keywordSynonyms && keywordSynonyms.length > 0) {
-          const displaySynonyms = keywordSynonyms.map(syn =>
-            options.language === 'hebrew' && /[\u0590-\u05FF]/.test(syn)
-              ? `\u202B${syn}\u202C`
-              : syn
-          );
-          console.log(`    📝 Synonyms: ${displaySynonyms.join(', ')}`);
+            // Show synonyms if available
+            const keywordSynonyms = synonyms[keyword];
+            if (keywordSynonyms && keywordSynonyms.length > 0) {
+              const displaySynonyms = keywordSynonyms.map(syn => formatLabel(syn, options.language));
+              console.log(`    📝 Synonyms: ${displaySynonyms.join(', ')}`);
+            }
+          }
         }
-      }
 
-      processedCount++;
+        saveProgress(existingMappings, orphans, state, options.language);
+        processedCount++;
 
-      // Rate limiting
-      await sleep(CONFIG.VISION_DELAY_MS);
-    }
-
-    // Save progress after each batch
-    await saveMappings(existingMappings, options.language);
+        // Rate limiting
+        await sleep(CONFIG.VISION_DELAY_MS);
+      }
 
-    console.log(`Batch completed. Progress: ${processedCount}/${iconIds.length} (${successCount} successful)\n`);
+      console.log(`Batch completed. Progress: ${processedCount}/${selected.length} (${successCount} successful)\n`);
+    }
+  } finally {
+    process.removeListener('SIGINT', onInterrupt);
   }
 
+  console.log(`Saved mappings to ${getYotoIconIdsFile(options.language)}`);
   console.log('🎉 Plan Mode completed!');
   console.log(`Total processed: ${processedCount}`);
-  console.log(`Successful mappings: ${successCount}`);
+  console.log(`Successful mappings: ${successCount - orphanCount}`);
+  console.log(`Orphan labels: ${orphanCount}`);
   console.log(`Failed: ${processedCount - successCount}`);
+
+  if (processedCount > successCount) {
+    console.log(`\n💡 Rerun with --retry-failed to describe the failed icons again`);
+  }
+  if (Object.keys(orphans).length > 0) {
+    console.log(`\n💡 ${Object.keys(orphans).length} labels have no synonym category.`);
+    console.log(`   Review ${getOrphanLabelsFile(options.language)} and extend synonyms/${options.language}.json`);
+  }
 }
 
 function parseArgs(): PlanOptions {
-  const args = minimist(process.argv.slice(2));
+  const args = minimist(process.argv.slice(2), { boolean: ['retry-failed', 'only-new'], string: ['redo'] });
+
+  const language = parseLanguageArg(args.language);
 
-  if (!args.bearer) {
-    console.error('❌ --bearer token is required');
+  configureProvider(parseProviderArgs(args));
+
+  const modes: PlanSelection[] = [];
+  if (args['retry-failed']) modes.push('retry-failed');
+  if (args['only-new']) modes.push('only-new');
+  if (args.redo !== undefined) modes.push('redo');
+  if (modes.length > 1) {
+    console.error('❌ Use only one of --retry-failed, --only-new and --redo');
     process.exit(1);
   }
 
-  const language = (args.language || 'english') as Language;
-  if (!['english', 'hebrew'].includes(language)) {
-    console.error('❌ --language must be "english" or "hebrew"');
+  const redo = args.redo !== undefined ? String(args.redo).split(',').map(normalizePlanIconId).filter(id => id) : undefined;
+  if (redo && redo.length === 0) {
+    console.error('❌ --redo needs a comma-separated list of icon IDs');
     process.exit(1);
   }
 
   return {
-    bearer: args.bearer,
+    bearer: args.bearer || '',
     language,
     startFrom: args.startFrom ? parseInt(args.startFrom) : undefined,
-    batchSize: args.batchSize ? parseInt(args.batchSize) : undefined
+    batchSize: args.batchSize ? parseInt(args.batchSize) : undefined,
+    selection: modes[0] || 'pending',
+    redo
   };
 }
 
 function showUsage(): void {
   console.log(`
-Usage: ts-node src/plan.ts --bearer <TOKEN> [options]
-
-Required:
-  --bearer <TOKEN>        Yoto bearer token
+Usage: ts-node src/plan.ts [options]
 
 Options:
-  --language <LANG>       Language for keywords: "english" or "hebrew" (default: english)
-  --startFrom <INDEX>     Resume from specific icon index (default: 0)
+  --bearer <TOKEN>        Yoto bearer token (optional; icons are read from public URLs)
+  --language <LANG>       Language for keywords: ${listLanguages().join(', ')} (default: english)
+  --startFrom <INDEX>     Only consider icons from this index of icon_ids.txt on (default: 0)
   --batchSize <SIZE>      Process icons in batches (default: ${CONFIG.DEFAULT_BATCH_SIZE})
+  --retry-failed          Only describe icons whose last attempt failed
+  --only-new              Only describe icons never seen before (e.g. new lines in icon_ids.txt)
+  --redo <IDS>            Describe these icons again, comma-separated, even if done
+
+Icons already described are skipped: each icon's status, label, error, attempts,
+model and time are kept in data/plan_state_<language>.json, saved after every icon.
+${PROVIDER_USAGE}
 
 Examples:
   ts-node src/plan.ts --bearer $BEARER --language english
   ts-node src/plan.ts --bearer $BEARER --language hebrew --startFrom 100
   ts-node src/plan.ts --bearer $BEARER --batchSize 5
+  ts-node src/plan.ts --language hebrew --retry-failed
+  ts-node src/plan.ts --language hebrew --redo p_yLNC3TPtuo8MNv5WSG0q5aqTPD-WRRRWYkPB0cbjA
+  ts-node src/plan.ts --provider compatible --base-url http://localhost:11434/v1 --model llava
 `);
 }
 
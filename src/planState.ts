@@ -0,0 +1,103 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { getPlanStateFile } from './config';
+import { IconMappingStore, Language, OrphanLabels, PlanIconState, PlanSelection, PlanState } from './types';
+
+const YOTO_PREFIX = 'yoto:#';
+
+// Null when plan has not run with a state file for this language yet
+export function loadPlanState(language: Language): PlanState | null {
+  const filePath = path.resolve(getPlanStateFile(language));
+  if (!fs.existsSync(filePath)) return null;
+  return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+}
+
+export function savePlanState(state: PlanState, language: Language): string {
+  const filePath = path.resolve(getPlanStateFile(language));
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(state, null, 2), 'utf-8');
+  return filePath;
+}
+
+/**
+ * A first state for mappings made before the state file existed: every
+ * icon already mapped or recorded as an orphan counts as done, so the
+ * first incremental run does not describe the whole catalog again.
+ */
+export function seedPlanState(store: IconMappingStore, orphans: OrphanLabels): PlanState {
+  const state: PlanState = { version: 1, icons: {} };
+  const now = new Date().toISOString();
+
+  for (const [keyword, candidates] of Object.entries(store.keywords)) {
+    for (const candidate of candidates) {
+      // Uploaded icons are not in icon_ids.txt and were never described
+      if (candidate.provenance === 'generated' || !candidate.iconId.startsWith(YOTO_PREFIX)) continue;
+      state.icons[candidate.iconId.slice(YOTO_PREFIX.length)] = {
+        status: 'done',
+        label: candidate.label,
+        keyword,
+        attempts: 1,
+        model: candidate.model || 'unknown',
+        updatedAt: candidate.createdAt || now
+      };
+    }
+  }
+  for (const [label, iconIds] of Object.entries(orphans)) {
+    for (const iconId of iconIds) {
+      state.icons[iconId.replace(YOTO_PREFIX, '')] = { status: 'done', label, keyword: null, attempts: 1, model: 'unknown', updatedAt: now };
+    }
+  }
+
+  return state;
+}
+
+// Records one description attempt; a failure keeps the label of an earlier success
+export function recordPlanAttempt(
+  state: PlanState,
+  iconId: string,
+  model: string,
+  outcome: { label: string; keyword: string | null } | { error: string }
+): PlanIconState {
+  const previous = state.icons[iconId];
+  const attempt = { attempts: (previous?.attempts || 0) + 1, model, updatedAt: new Date().toISOString() };
+  const entry: PlanIconState = 'error' in outcome
+    ? { status: 'failed', label: previous?.label, keyword: previous?.keyword, error: outcome.error, ...attempt }
+    : { status: 'done', label: outcome.label, keyword: outcome.keyword, ...attempt };
+
+  state.icons[iconId] = entry;
+  return entry;
+}
+
+// Accepts "id" and "yoto:#id"
+export function normalizePlanIconId(iconId: string): string {
+  return iconId.trim().replace(YOTO_PREFIX, '');
+}
+
+/**
+ * The icons of icon_ids.txt a run should describe, in file order:
+ * - pending: everything not done yet (new and failed icons)
+ * - retry-failed: only icons whose last attempt failed
+ * - only-new: only icons the state has never seen
+ * - redo: exactly the given icons, whatever their state
+ */
+export function selectPlanIcons(iconIds: string[], state: PlanState, selection: PlanSelection, redo: string[] = []): string[] {
+  switch (selection) {
+    case 'retry-failed':
+      return iconIds.filter(id => state.icons[id]?.status === 'failed');
+    case 'only-new':
+      return iconIds.filter(id => !state.icons[id]);
+    case 'redo':
+      return iconIds.filter(id => redo.includes(id));
+    default:
+      return iconIds.filter(id => state.icons[id]?.status !== 'done');
+  }
+}
+
+export function countPlanStates(iconIds: string[], state: PlanState): { done: number; failed: number; new: number } {
+  const counts = { done: 0, failed: 0, new: 0 };
+  for (const id of iconIds) {
+    const status = state.icons[id]?.status;
+    counts[status || 'new']++;
+  }
+  return counts;
+}
@@ -0,0 +1,223 @@
+import * as zlib from 'zlib';
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function chunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const typeAndData = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(typeAndData));
+  return Buffer.concat([length, typeAndData, crc]);
+}
+
+export interface RgbaImage {
+  width: number;
+  height: number;
+  data: Buffer; // width * height * 4 bytes, RGBA
+}
+
+// Encodes an 8-bit RGBA image as PNG (no filtering, default compression)
+export function encodePng(image: RgbaImage): Buffer {
+  const { width, height, data } = image;
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8;  // bit depth
+  header[9] = 6;  // color type: RGBA
+  header[10] = 0; // compression
+  header[11] = 0; // filter
+  header[12] = 0; // interlace
+
+  const stride = width * 4;
+  const raw = Buffer.alloc((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    raw[y * (stride + 1)] = 0; // filter type: none
+    data.copy(raw, y * (stride + 1) + 1, y * stride, (y + 1) * stride);
+  }
+
+  return Buffer.concat([
+    PNG_SIGNATURE,
+    chunk('IHDR', header),
+    chunk('IDAT', zlib.deflateSync(raw)),
+    chunk('IEND', Buffer.alloc(0))
+  ]);
+}
+
+function paethPredictor(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  return pb <= pc ? b : c;
+}
+
+// Reverses the per-scanline filters in place and returns the raw rows
+function unfilter(data: Buffer, height: number, stride: number, bytesPerPixel: number): Buffer {
+  const out = Buffer.alloc(stride * height);
+
+  for (let y = 0; y < height; y++) {
+    const filter = data[y * (stride + 1)];
+    const row = y * (stride + 1) + 1;
+
+    for (let x = 0; x < stride; x++) {
+      const raw = data[row + x];
+      const left = x >= bytesPerPixel ? out[y * stride + x - bytesPerPixel] : 0;
+      const up = y > 0 ? out[(y - 1) * stride + x] : 0;
+      const upLeft = y > 0 && x >= bytesPerPixel ? out[(y - 1) * stride + x - bytesPerPixel] : 0;
+
+      let value: number;
+      switch (filter) {
+        case 0: value = raw; break;
+        case 1: value = raw + left; break;
+        case 2: value = raw + up; break;
+        case 3: value = raw + ((left + up) >> 1); break;
+        case 4: value = raw + paethPredictor(left, up, upLeft); break;
+        default: throw new Error(`Unsupported PNG filter type ${filter}`);
+      }
+      out[y * stride + x] = value & 0xff;
+    }
+  }
+
+  return out;
+}
+
+/**
+ * Decodes a non-interlaced PNG of any bit depth and color type into 8-bit
+ * RGBA. Enough for Yoto icons and generated images; no color management.
+ */
+export function decodePng(buffer: Buffer): RgbaImage {
+  if (buffer.length < 8 || !buffer.subarray(0, 8).equals(PNG_SIGNATURE)) {
+    throw new Error('Not a PNG file');
+  }
+
+  let width = 0;
+  let height = 0;
+  let bitDepth = 8;
+  let colorType = 6;
+  let interlace = 0;
+  let palette: Buffer | null = null;
+  let transparency: Buffer | null = null;
+  const idat: Buffer[] = [];
+
+  for (let offset = 8; offset < buffer.length;) {
+    const length = buffer.readUInt32BE(offset);
+    const type = buffer.toString('ascii', offset + 4, offset + 8);
+    const data = buffer.subarray(offset + 8, offset + 8 + length);
+    offset += length + 12;
+
+    if (type === 'IHDR') {
+      width = data.readUInt32BE(0);
+      height = data.readUInt32BE(4);
+      bitDepth = data[8];
+      colorType = data[9];
+      interlace = data[12];
+    } else if (type === 'PLTE') {
+      palette = data;
+    } else if (type === 'tRNS') {
+      transparency = data;
+    } else if (type === 'IDAT') {
+      idat.push(data);
+    } else if (type === 'IEND') {
+      break;
+    }
+  }
+
+  if (interlace !== 0) {
+    throw new Error('Interlaced PNGs are not supported');
+  }
+
+  const channels = ({ 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 } as { [type: number]: number })[colorType];
+  if (!channels || !width || !height) {
+    throw new Error(`Unsupported PNG (color type ${colorType})`);
+  }
+
+  const bitsPerPixel = channels * bitDepth;
+  const stride = Math.ceil((width * bitsPerPixel) / 8);
+  const rows = unfilter(zlib.inflateSync(Buffer.concat(idat)), height, stride, Math.max(1, bitsPerPixel >> 3));
+  const maxValue = (1 << bitDepth) - 1;
+
+  // Sample n of a row, scaled to 0-255 (palette indices stay unscaled)
+  const sample = (rowStart: number, n: number, scale: boolean): number => {
+    if (bitDepth === 16) {
+      return rows[rowStart + n * 2]; // High byte
+    }
+
+    let value: number;
+    if (bitDepth === 8) {
+      value = rows[rowStart + n];
+    } else {
+      const bit = n * bitDepth;
+      value = (rows[rowStart + (bit >> 3)] >> (8 - bitDepth - (bit & 7))) & maxValue;
+    }
+    return scale ? Math.round((value * 255) / maxValue) : value;
+  };
+
+  // tRNS for gray/RGB names one fully transparent color, at the image bit depth
+  const transparentKey = transparency && (colorType === 0 || colorType === 2)
+    ? Array.from({ length: channels }, (_, i) => transparency!.readUInt16BE(i * 2))
+    : null;
+  const rawSample = (rowStart: number, n: number): number => bitDepth === 16
+    ? rows.readUInt16BE(rowStart + n * 2)
+    : sample(rowStart, n, false);
+
+  const data = Buffer.alloc(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    const rowStart = y * stride;
+
+    for (let x = 0; x < width; x++) {
+      const n = x * channels;
+      const out = (y * width + x) * 4;
+      let rgba: number[];
+
+      if (colorType === 3) {
+        const index = sample(rowStart, n, false);
+        rgba = [
+          palette ? palette[index * 3] : 0,
+          palette ? palette[index * 3 + 1] : 0,
+          palette ? palette[index * 3 + 2] : 0,
+          transparency && index < transparency.length ? transparency[index] : 255
+        ];
+      } else if (colorType === 0 || colorType === 4) {
+        const gray = sample(rowStart, n, true);
+        rgba = [gray, gray, gray, colorType === 4 ? sample(rowStart, n + 1, true) : 255];
+      } else {
+        rgba = [
+          sample(rowStart, n, true),
+          sample(rowStart, n + 1, true),
+          sample(rowStart, n + 2, true),
+          colorType === 6 ? sample(rowStart, n + 3, true) : 255
+        ];
+      }
+
+      if (transparentKey && transparentKey.every((value, i) => rawSample(rowStart, n + i) === value)) {
+        rgba[3] = 0;
+      }
+
+      data.set(rgba, out);
+    }
+  }
+
+  return { width, height, data };
+}
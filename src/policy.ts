@@ -0,0 +1,220 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CONFIG } from './config';
+import { CardPolicyOverride, MatchingPolicy, MatchResult, MatchTier, OverwritePolicy } from './types';
+
+export const MATCH_TIERS: MatchTier[] = ['exact', 'partial', 'semantic', 'ai'];
+export const OVERWRITE_POLICIES: OverwritePolicy[] = ['all', 'default-only', 'matched-better'];
+
+// Semantic matching calls the embeddings API, so it is opt-in (--semantic or "tiers" in the policy file)
+export const DEFAULT_POLICY: MatchingPolicy = {
+  tiers: MATCH_TIERS.filter(tier => tier !== 'semantic'),
+  minRelevance: 0,
+  minScore: 0,
+  semanticThreshold: CONFIG.SEMANTIC_THRESHOLD,
+  ai: true,
+  maxAiCalls: null,
+  overwrite: 'default-only',
+  cards: {}
+};
+
+function checkOverride(override: any, where: string): CardPolicyOverride {
+  const fail = (message: string): never => {
+    throw new Error(`${where}: ${message}`);
+  };
+  const isNumber = (value: unknown) => typeof value === 'number' && !isNaN(value);
+
+  if (override.tiers !== undefined
+    && (!Array.isArray(override.tiers) || override.tiers.some((tier: any) => !MATCH_TIERS.includes(tier)))) {
+    fail(`"tiers" must be a list of: ${MATCH_TIERS.join(', ')}`);
+  }
+  if (override.minRelevance !== undefined && (!isNumber(override.minRelevance) || override.minRelevance < 0 || override.minRelevance > 100)) {
+    fail('"minRelevance" must be a number from 0 to 100');
+  }
+  if (override.minScore !== undefined && !isNumber(override.minScore)) {
+    fail('"minScore" must be a number');
+  }
+  if (override.semanticThreshold !== undefined
+    && (!isNumber(override.semanticThreshold) || override.semanticThreshold < -1 || override.semanticThreshold > 1)) {
+    fail('"semanticThreshold" must be a number from -1 to 1');
+  }
+  if (override.ai !== undefined && typeof override.ai !== 'boolean') {
+    fail('"ai" must be true or false');
+  }
+  if (override.overwrite !== undefined && !OVERWRITE_POLICIES.includes(override.overwrite)) {
+    fail(`"overwrite" must be one of: ${OVERWRITE_POLICIES.join(', ')}`);
+  }
+
+  // Unknown keys (comments, typos) are dropped rather than carried into reports
+  const known: Array<keyof CardPolicyOverride> = ['tiers', 'minRelevance', 'minScore', 'semanticThreshold', 'ai', 'overwrite'];
+  const checked: { [key: string]: any } = {};
+  for (const key of known) {
+    if (override[key] !== undefined) checked[key] = override[key];
+  }
+  return checked as CardPolicyOverride;
+}
+
+/**
+ * Reads a policy file over the defaults. An explicit file must exist; the
+ * default matching-policy.json is optional. Throws on invalid values.
+ */
+export function loadMatchingPolicy(filePath?: string): MatchingPolicy {
+  const resolved = path.resolve(filePath || CONFIG.MATCHING_POLICY_FILE);
+  if (!filePath && !fs.existsSync(resolved)) {
+    return { ...DEFAULT_POLICY, cards: {} };
+  }
+
+  const data = JSON.parse(fs.readFileSync(resolved, 'utf-8'));
+  const { cards = {}, maxAiCalls = null, ...rest } = data;
+  const where = path.basename(resolved);
+
+  if (maxAiCalls !== null && (!Number.isInteger(maxAiCalls) || maxAiCalls < 0)) {
+    throw new Error(`${where}: "maxAiCalls" must be a whole number or null`);
+  }
+  const checkedCards: { [cardId: string]: CardPolicyOverride } = {};
+  for (const [cardId, override] of Object.entries(cards)) {
+    checkedCards[cardId] = checkOverride(override, `${where} (card ${cardId})`);
+  }
+
+  return {
+    ...DEFAULT_POLICY,
+    ...checkOverride(rest, where),
+    maxAiCalls,
+    cards: checkedCards,
+    source: filePath || CONFIG.MATCHING_POLICY_FILE
+  };
+}
+
+// Applies a card's overrides, if it has any
+export function policyForCard(policy: MatchingPolicy, cardId: string): MatchingPolicy {
+  const override = policy.cards[cardId];
+  return override ? { ...policy, ...override } : policy;
+}
+
+/**
+ * Reads the shared policy flags over the policy file. Flags win over the
+ * file, but per-card overrides in the file still win over both.
+ */
+export function parsePolicyArgs(args: { [key: string]: any }): MatchingPolicy {
+  let policy: MatchingPolicy;
+  try {
+    policy = loadMatchingPolicy(args.policy);
+  } catch (error) {
+    console.error(`❌ Cannot load matching policy: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+
+  const flags: { [key: string]: any } = {};
+  if (args.tiers !== undefined) {
+    flags.tiers = String(args.tiers).split(',').map(tier => tier.trim()).filter(tier => tier);
+  }
+  if (args['min-relevance'] !== undefined) flags.minRelevance = parseFloat(args['min-relevance']);
+  if (args['min-score'] !== undefined) flags.minScore = parseFloat(args['min-score']);
+  if (args['semantic-threshold'] !== undefined) flags.semanticThreshold = parseFloat(args['semantic-threshold']);
+  if (args.ai === false) flags.ai = false;
+  if (args.overwrite !== undefined) flags.overwrite = String(args.overwrite);
+  if (args['fill-blanks'] && args.overwrite !== undefined) {
+    console.error('❌ --fill-blanks and --overwrite cannot be combined');
+    process.exit(1);
+  }
+
+  try {
+    Object.assign(policy, checkOverride(flags, 'Matching flags'));
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+
+  // Unlike --overwrite=default-only, no per-card override can loosen it
+  if (args['fill-blanks']) {
+    policy.overwrite = 'default-only';
+    for (const card of Object.values(policy.cards)) {
+      delete card.overwrite;
+    }
+  }
+  if (args.semantic === true && !usesSemantic(policy)) {
+    policy.tiers = [...policy.tiers, 'semantic'];
+  }
+  if (args.semantic === false) {
+    policy.tiers = policy.tiers.filter(tier => tier !== 'semantic');
+  }
+  if (args['max-ai-calls'] !== undefined) {
+    const budget = parseInt(args['max-ai-calls']);
+    if (isNaN(budget) || budget < 0) {
+      console.error('❌ --max-ai-calls must be a whole number');
+      process.exit(1);
+    }
+    policy.maxAiCalls = budget;
+  }
+
+  return policy;
+}
+
+export function usesSemantic(policy: MatchingPolicy): boolean {
+  return policy.tiers.includes('semantic');
+}
+
+export function usesAi(policy: MatchingPolicy): boolean {
+  return policy.ai && policy.tiers.includes('ai') && policy.maxAiCalls !== 0;
+}
+
+/**
+ * Whether the policy lets a match through, and why not. Keywords inherited
+ * in context mode carry the score of the match they came from, so the same
+ * thresholds apply to them.
+ */
+export function checkPolicy(
+  match: Pick<MatchResult, 'confidence' | 'score' | 'relevance'>,
+  policy: MatchingPolicy
+): { allowed: boolean; reason?: string } {
+  if (match.confidence === 'none') {
+    return { allowed: false, reason: 'no match' };
+  }
+  if (match.confidence === 'override') {
+    return { allowed: true }; // Pinned by hand in overrides.json
+  }
+  if (!policy.tiers.includes(match.confidence)) {
+    return { allowed: false, reason: `${match.confidence} matches not allowed` };
+  }
+  if (match.confidence === 'exact' || match.confidence === 'partial') {
+    if (match.relevance !== undefined && match.relevance < policy.minRelevance) {
+      return { allowed: false, reason: `relevance ${match.relevance.toFixed(1)}% < ${policy.minRelevance}%` };
+    }
+    if (match.score !== undefined && match.score < policy.minScore) {
+      return { allowed: false, reason: `score ${match.score.toFixed(2)} < ${policy.minScore}` };
+    }
+  }
+  return { allowed: true };
+}
+
+// Human-readable policy, one line per setting, for run headers
+export function describePolicy(policy: MatchingPolicy): string[] {
+  const lines = [
+    `Source: ${policy.source || 'defaults'}`,
+    `Tiers: ${policy.tiers.join(', ') || '(none)'}`,
+    `Minimum relevance: ${policy.minRelevance}%, minimum score: ${policy.minScore}`,
+    `Semantic threshold: ${policy.semanticThreshold}`,
+    `AI: ${usesAi(policy) ? `on${policy.maxAiCalls !== null ? `, at most ${policy.maxAiCalls} calls` : ''}` : 'off'}`,
+    `Overwrite: ${policy.overwrite}${policy.overwrite === 'default-only' ? ' (fill only blank tracks)' : ''}`
+  ];
+
+  const cardIds = Object.keys(policy.cards);
+  if (cardIds.length > 0) {
+    lines.push(`Card overrides: ${cardIds.map(id => `${id} (${Object.keys(policy.cards[id]).join(', ')})`).join('; ')}`);
+  }
+  return lines;
+}
+
+export const POLICY_USAGE = `  --policy <FILE>         Matching policy file (default: ${CONFIG.MATCHING_POLICY_FILE} if present)
+  --tiers <LIST>          Confidence levels that may be applied (default: ${DEFAULT_POLICY.tiers.join(',')})
+  --min-relevance <N>     Hold back exact/partial matches explaining less than N% of the title
+  --min-score <N>         Hold back exact/partial matches scoring below N
+  --semantic-threshold <N> Minimum cosine similarity for a semantic match (default: ${CONFIG.SEMANTIC_THRESHOLD})
+  --semantic              Also match unmatched tracks by embedding similarity (needs an embedding model)
+  --no-semantic           Skip semantic matching even when the policy file turns it on
+  --no-ai                 Never ask the AI
+  --max-ai-calls <N>      AI request budget for the whole run
+  --overwrite <POLICY>    Tracks with existing icons: "default-only" (default) keeps them,
+                          "matched-better" replaces catalog icons with exact matches,
+                          "all" replaces everything
+  --fill-blanks           Only fill blank tracks, on every card: per-card "overwrite" settings are ignored`;
@@ -0,0 +1,68 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CONFIG } from './config';
+import { catalogPalette, loadIconCacheIndex } from './iconCache';
+import { getLanguage } from './languages';
+import { Language, PromptTemplates } from './types';
+
+let templates: PromptTemplates | null = null;
+
+/**
+ * Reads prompts/icons.json. Changing how icons are drawn means editing
+ * that file, not code. Throws when the default style is missing.
+ */
+export function loadPromptTemplates(): PromptTemplates {
+  if (templates) return templates;
+
+  const filePath = path.resolve(CONFIG.PROMPTS_FILE);
+  const data = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as Partial<PromptTemplates>;
+  const loaded: PromptTemplates = { negative: [], styles: {}, keywords: {}, defaultStyle: '', ...data };
+
+  for (const [name, style] of Object.entries(loaded.styles)) {
+    if (!style.prompt || !style.prompt.includes('{concept}')) {
+      throw new Error(`${path.basename(filePath)}: style "${name}" needs a prompt containing {concept}`);
+    }
+  }
+  if (!loaded.styles[loaded.defaultStyle]) {
+    throw new Error(`${path.basename(filePath)}: default style "${loaded.defaultStyle}" is not defined`);
+  }
+
+  templates = loaded;
+  return templates;
+}
+
+export function listStyles(): string[] {
+  return Object.keys(loadPromptTemplates().styles);
+}
+
+// The catalog's colours when the icon cache is synced, else the style's own list
+function resolvePalette(fallback: string[] = []): string {
+  const index = loadIconCacheIndex();
+  const colors = Object.keys(index.icons).length > 0 ? catalogPalette(index, CONFIG.PALETTE_COLORS) : fallback;
+  return colors.join(', ');
+}
+
+/**
+ * The image prompt for a keyword in a style. The concept comes from the
+ * keyword's entry in the prompts file, then the language gloss, then the
+ * keyword itself; negative instructions are the shared ones, the style's
+ * and the keyword's, in that order.
+ */
+export function buildIconPrompt(keyword: string, language: Language, styleName?: string): { style: string; prompt: string } {
+  const file = loadPromptTemplates();
+  const style = styleName || file.defaultStyle;
+  const definition = file.styles[style];
+  if (!definition) {
+    throw new Error(`Unknown style "${style}" (expected: ${listStyles().join(', ')})`);
+  }
+
+  const override = file.keywords[language]?.[keyword] || {};
+  const concept = override.concept || getLanguage(language).gloss[keyword] || keyword.replace(/_/g, ' ');
+  const negative = [...file.negative, ...(definition.negative || []), ...(override.negative || [])];
+
+  let prompt = definition.prompt.replace(/\{concept\}/g, concept);
+  if (prompt.includes('{palette}')) {
+    prompt = prompt.replace(/\{palette\}/g, resolvePalette(definition.palette));
+  }
+  return { style, prompt: negative.length > 0 ? `${prompt}, ${negative.join(', ')}` : prompt };
+}
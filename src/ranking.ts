@@ -0,0 +1,255 @@
+import { LanguageDefinition, TextNormalizer, YotoSynonyms } from './types';
+
+// Per-token weights by how the title word met the keyword term
+const MATCH_WEIGHTS = {
+  word: 1.0,      // Same word or close spelling
+  stem: 0.8,      // Same after stripping proclitics/endings
+  fuzzy: 0.6,     // Within a small edit distance (typos)
+  substring: 0.3  // One word inside the other, e.g. "snowman" / "snow"
+};
+const GENERIC_WEIGHT = 0.3; // Words like "song" or "שיר" say little about the picture
+const OWNER_WEIGHT = 0.5;   // Words after a possessive ("grandma" in "הכלב של סבתא") rank below the head noun
+const PHRASE_BONUS = 0.5;   // Extra for matching every word of a multi-word synonym
+const MIN_SUBSTRING_LENGTH = 4; // So "cat" never matches inside "education"
+
+type MatchType = keyof typeof MATCH_WEIGHTS;
+
+interface IndexedToken {
+  text: string;
+  close: string[];
+  loose: string[];
+}
+
+interface IndexedTerm {
+  text: string;
+  tokens: IndexedToken[];
+}
+
+export interface RankingIndex {
+  keywords: Array<{ keyword: string; terms: IndexedTerm[] }>;
+  idf: Map<string, number>;
+  genericWords: Set<string>;
+  possessiveWords: Set<string>;
+  idioms: string[][]; // Tokens of each set phrase
+}
+
+export type RankingWords = Partial<Pick<LanguageDefinition, 'genericWords' | 'possessiveWords' | 'idioms'>>;
+
+export interface RankedCandidate {
+  keyword: string;
+  score: number;
+  relevance: number;  // 0-100: share of the title's words this keyword explains
+  wholeWord: boolean; // Matched at least one whole word or stem, not just fuzzy/substring
+  reasons: string[];
+}
+
+export function tokenize(text: string): string[] {
+  return text.split(/[\s_]+/).filter(token => token.length > 1);
+}
+
+// Edit distance, giving up early once it exceeds max
+export function levenshtein(a: string, b: string, max: number = Infinity): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function allowedEdits(a: string, b: string): number {
+  const length = Math.min(a.length, b.length);
+  if (length >= 8) return 2;
+  if (length >= 4) return 1;
+  return 0;
+}
+
+/**
+ * Indexes every keyword's synonyms once per language: tokens with their
+ * spellings, and an IDF weight per token so words shared by many
+ * categories count less than distinctive ones.
+ */
+export function buildRankingIndex(
+  synonyms: YotoSynonyms,
+  normalizer: TextNormalizer,
+  words: RankingWords = {}
+): RankingIndex {
+  const normalize = (list: string[] = []) => list.map(word => normalizer.normalize(word));
+  const documentFrequency = new Map<string, number>();
+
+  const keywords = Object.entries(synonyms).map(([keyword, synonymList]) => {
+    const terms = unique([keyword, ...synonymList].map(term => normalizer.normalize(term.replace(/_/g, ' '))))
+      .map(text => ({
+        text,
+        tokens: tokenize(text).map(token => ({ text: token, ...normalizer.termVariants(token) }))
+      }))
+      .filter(term => term.tokens.length > 0);
+
+    for (const token of new Set(terms.flatMap(term => term.tokens.map(t => t.text)))) {
+      documentFrequency.set(token, (documentFrequency.get(token) || 0) + 1);
+    }
+    return { keyword, terms };
+  });
+
+  const idf = new Map<string, number>();
+  for (const [token, count] of documentFrequency) {
+    idf.set(token, Math.log(1 + keywords.length / count));
+  }
+
+  return {
+    keywords,
+    idf,
+    genericWords: new Set(normalize(words.genericWords)),
+    possessiveWords: new Set(normalize(words.possessiveWords)),
+    idioms: normalize(words.idioms).map(tokenize).filter(tokens => tokens.length > 0)
+  };
+}
+
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values.filter(value => value)));
+}
+
+// Drops set phrases ("לילה טוב" is a greeting, not a night) so their words match nothing
+function withoutIdioms(tokens: string[], idioms: string[][]): string[] {
+  const kept: string[] = [];
+  for (let i = 0; i < tokens.length;) {
+    const idiom = idioms.find(phrase => phrase.every((word, j) => tokens[i + j] === word));
+    if (idiom) {
+      i += idiom.length;
+    } else {
+      kept.push(tokens[i++]);
+    }
+  }
+  return kept;
+}
+
+function compareTokens(
+  title: { text: string; close: string[]; loose: string[] },
+  term: IndexedToken
+): { type: MatchType; detail: string } | null {
+  if (title.close.some(spelling => term.close.includes(spelling))) {
+    return { type: 'word', detail: `"${title.text}" = "${term.text}"` };
+  }
+
+  const titleAll = [...title.close, ...title.loose];
+  const termAll = [...term.close, ...term.loose];
+  const stem = titleAll.find(spelling => termAll.includes(spelling));
+  if (stem) {
+    return { type: 'stem', detail: `"${title.text}" ~ "${term.text}" (stem ${stem})` };
+  }
+
+  const edits = allowedEdits(title.text, term.text);
+  if (edits > 0) {
+    const distance = levenshtein(title.text, term.text, edits);
+    if (distance <= edits) {
+      return { type: 'fuzzy', detail: `"${title.text}" ≈ "${term.text}" (${distance} edit${distance > 1 ? 's' : ''})` };
+    }
+  }
+
+  const [shorter, longer] = title.text.length <= term.text.length ? [title.text, term.text] : [term.text, title.text];
+  if (shorter.length >= MIN_SUBSTRING_LENGTH && longer.includes(shorter)) {
+    return { type: 'substring', detail: `"${longer}" contains "${shorter}"` };
+  }
+
+  return null;
+}
+
+/**
+ * Scores every keyword against a title and returns the ones that match,
+ * best first. Each title word counts once per keyword, through its best
+ * match among that keyword's synonyms; ties keep synonym-file order.
+ */
+export function rankKeywords(
+  title: string,
+  index: RankingIndex,
+  normalizer: TextNormalizer,
+  limit?: number
+): RankedCandidate[] {
+  let owned = false;
+  const titleTokens = withoutIdioms(tokenize(normalizer.normalize(title)), index.idioms).map(token => {
+    const owner = owned;
+    owned = owned || index.possessiveWords.has(token);
+    return { text: token, owner, ...normalizer.wordVariants(token) };
+  });
+  if (titleTokens.length === 0) return [];
+
+  const genericFactor = (token: string) => (index.genericWords.has(token) ? GENERIC_WEIGHT : 1);
+  const ownerFactor = (token: { owner: boolean }) => (token.owner ? OWNER_WEIGHT : 1);
+  const titleMass = titleTokens.reduce((sum, token) => sum + genericFactor(token.text) * ownerFactor(token), 0);
+  const candidates: RankedCandidate[] = [];
+
+  for (const { keyword, terms } of index.keywords) {
+    let score = 0;
+    let coverage = 0;
+    let wholeWord = false;
+    const reasons: string[] = [];
+    const matchedTerms = new Map<IndexedTerm, Set<string>>();
+
+    for (const titleToken of titleTokens) {
+      let best: { points: number; weight: number; type: MatchType; detail: string; term: IndexedTerm; token: IndexedToken } | null = null;
+
+      for (const term of terms) {
+        for (const token of term.tokens) {
+          const match = compareTokens(titleToken, token);
+          if (!match) continue;
+
+          // A generic word counts as generic once, whether it is in the title, the synonym or both
+          const generic = Math.min(genericFactor(titleToken.text), genericFactor(token.text));
+          const weight = MATCH_WEIGHTS[match.type] * generic * ownerFactor(titleToken);
+          // One word of a longer synonym ("sun" of "sun glasses") counts for less than a whole synonym
+          const points = weight * (index.idf.get(token.text) || 1) / Math.sqrt(term.tokens.length);
+          if (!best || points > best.points) {
+            best = { points, weight, ...match, term, token };
+          }
+        }
+      }
+
+      if (!best) continue;
+
+      score += best.points;
+      coverage += Math.min(best.weight, genericFactor(titleToken.text) * ownerFactor(titleToken));
+      wholeWord = wholeWord || best.type === 'word' || best.type === 'stem';
+      const generic = genericFactor(titleToken.text) < 1 || genericFactor(best.token.text) < 1 ? ', generic' : '';
+      reasons.push(`${best.detail} [${best.type}${generic}, +${best.points.toFixed(2)}]`);
+
+      if (best.type === 'word' || best.type === 'stem') {
+        const tokens = matchedTerms.get(best.term) || new Set<string>();
+        matchedTerms.set(best.term, tokens.add(best.token.text));
+      }
+    }
+
+    for (const [term, tokens] of matchedTerms) {
+      if (term.tokens.length > 1 && tokens.size === term.tokens.length) {
+        const bonus = PHRASE_BONUS * term.tokens.reduce((sum, token) => sum + (index.idf.get(token.text) || 1), 0);
+        score += bonus;
+        reasons.push(`all of "${term.text}" [phrase, +${bonus.toFixed(2)}]`);
+      }
+    }
+
+    if (score > 0) {
+      candidates.push({
+        keyword,
+        score: Math.round(score * 1000) / 1000,
+        relevance: Math.round(Math.min(100, (coverage / titleMass) * 100) * 10) / 10,
+        wholeWord,
+        reasons
+      });
+    }
+  }
+
+  // Array.prototype.sort is stable, so equal scores keep synonym-file order
+  const ranked = candidates.sort((a, b) => b.score - a.score);
+  return limit ? ranked.slice(0, limit) : ranked;
+}
@@ -0,0 +1,265 @@
+#!/usr/bin/env node
+
+import * as fs from 'fs';
+import * as path from 'path';
+import minimist from 'minimist';
+import { resolveBearer } from './auth';
+import { getPlaylist, listMyCards } from './yoto';
+import { describeYotoError, YotoAuthError } from './yotoHttp';
+import { matchIcon, suggestMatches, getIconMappingStats } from './matchIcon';
+import { getMissingIconsReportFile } from './config';
+import { checkPolicy, describePolicy, parsePolicyArgs, policyForCard } from './policy';
+import { findOverride, loadOverrides, overrideMatch } from './overrides';
+import { formatTextForDisplay, listLanguages, parseLanguageArg } from './languages';
+import { ReportOptions, MissingKeyword, MissingIconsReport, YotoPlaylist, Language } from './types';
+
+const MAX_EXAMPLES = 3;
+
+async function loadPlaylists(options: ReportOptions): Promise<YotoPlaylist[]> {
+  if (options.playlist) {
+    return [await getPlaylist(options.bearer, options.playlist)];
+  }
+
+  const cards = await listMyCards(options.bearer);
+  const playlists: YotoPlaylist[] = [];
+
+  for (const card of cards) {
+    try {
+      playlists.push(await getPlaylist(options.bearer, card.cardId));
+    } catch (error) {
+      if (error instanceof YotoAuthError) throw error;
+      console.warn(`⚠️  Skipping card ${card.cardId}: ${describeYotoError(error)}`);
+    }
+  }
+
+  return playlists;
+}
+
+function recordNeed(
+  needs: Map<string, MissingKeyword>,
+  keyword: string,
+  trackTitle: string,
+  field: 'tracks' | 'suggested'
+): void {
+  let entry = needs.get(keyword);
+  if (!entry) {
+    entry = { keyword, tracks: 0, suggested: 0, examples: [] };
+    needs.set(keyword, entry);
+  }
+
+  entry[field]++;
+  if (entry.examples.length < MAX_EXAMPLES && !entry.examples.includes(trackTitle)) {
+    entry.examples.push(trackTitle);
+  }
+}
+
+function buildReport(playlists: YotoPlaylist[], options: ReportOptions): MissingIconsReport {
+  const needs = new Map<string, MissingKeyword>();
+  let totalTracks = 0;
+  let covered = 0;
+  let missingIcon = 0;
+  let unmatched = 0;
+
+  const overrides = loadOverrides().overrides;
+
+  for (const playlist of playlists) {
+    const policy = policyForCard(options.policy, playlist.id);
+
+    for (const track of playlist.tracks) {
+      totalTracks++;
+
+      // Pinned tracks need nothing generated, unless they name a keyword without an icon
+      const override = findOverride(overrides, track, playlist.id);
+      const match = override
+        ? overrideMatch(override, track, options.language)
+        : matchIcon(track.title, options.language);
+      if (override && (match.iconId || !match.keyword)) {
+        covered++;
+        continue;
+      }
+
+      // A match the policy would hold back counts as no match
+      const allowed = checkPolicy(match, policy).allowed;
+      if (match.iconId && allowed) {
+        covered++;
+        continue;
+      }
+
+      if (match.keyword && allowed) {
+        // Matched a synonym category, but no icon exists for it yet
+        missingIcon++;
+        recordNeed(needs, match.keyword, track.title, 'tracks');
+        continue;
+      }
+
+      unmatched++;
+      const suggestion = suggestMatches(track.title, 3, options.language).find(s => !s.iconId);
+      if (suggestion) {
+        recordNeed(needs, suggestion.keyword, track.title, 'suggested');
+      }
+    }
+  }
+
+  let missing = Array.from(needs.values()).sort(
+    (a, b) => b.tracks - a.tracks || b.suggested - a.suggested || a.keyword.localeCompare(b.keyword)
+  );
+
+  if (options.limit) {
+    missing = missing.slice(0, options.limit);
+  }
+
+  return {
+    generatedAt: new Date().toISOString(),
+    language: options.language,
+    cards: playlists.map(p => p.id),
+    totalTracks,
+    covered,
+    missingIcon,
+    unmatched,
+    keywords: missing.map(m => m.keyword),
+    missing,
+    policy: options.policy
+  };
+}
+
+function percent(value: number, total: number): number {
+  return total > 0 ? Math.round(value / total * 100) : 0;
+}
+
+function displayReport(report: MissingIconsReport): void {
+  const { totalTracks, covered, missingIcon, unmatched } = report;
+
+  console.log('\n📊 Coverage Statistics:');
+  console.log(`  Cards analyzed: ${report.cards.length}`);
+  console.log(`  Total tracks: ${totalTracks}`);
+  console.log(`  ✅ Covered by an icon: ${covered} (${percent(covered, totalTracks)}%)`);
+  console.log(`  🟠 Matched, icon missing: ${missingIcon} (${percent(missingIcon, totalTracks)}%)`);
+  console.log(`  ❌ No keyword match: ${unmatched} (${percent(unmatched, totalTracks)}%)`);
+
+  if (report.missing.length === 0) {
+    console.log('\n✅ No missing icons found!');
+    return;
+  }
+
+  console.log('\n🔥 Priority Missing Icons:');
+  report.missing.forEach((entry, i) => {
+    const keyword = formatTextForDisplay(entry.keyword, report.language);
+    const suggested = entry.suggested > 0 ? `, ${entry.suggested} suggested` : '';
+    console.log(`  ${i + 1}. ${keyword} - ${entry.tracks} tracks${suggested}`);
+    for (const example of entry.examples) {
+      console.log(`       e.g. "${formatTextForDisplay(example, report.language)}"`);
+    }
+  });
+
+  // Only tracks already matched to a listed keyword are covered by generating it
+  const listed = report.missing.reduce((sum, entry) => sum + entry.tracks, 0);
+  console.log('\n🎯 Potential Improvement:');
+  console.log(`  Current coverage: ${percent(covered, totalTracks)}%`);
+  console.log(`  With the ${report.missing.length} listed icons generated: ${percent(covered + listed, totalTracks)}%`);
+  if (listed < missingIcon) {
+    console.log(`  With all missing icons generated: ${percent(covered + missingIcon, totalTracks)}%`);
+  }
+}
+
+function saveReport(report: MissingIconsReport, outputPath: string): void {
+  const filePath = path.resolve(outputPath);
+  const dir = path.dirname(filePath);
+
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  fs.writeFileSync(filePath, JSON.stringify(report, null, 2), 'utf-8');
+  console.log(`\n💾 Saved report to ${filePath}`);
+}
+
+async function runReportMode(options: ReportOptions): Promise<void> {
+  const scope = options.playlist ? `Playlist: ${options.playlist}` : 'All cards';
+  console.log(`📊 Report Mode - ${scope} - Language: ${options.language}`);
+
+  console.log(`📜 Matching policy:`);
+  describePolicy(options.policy).forEach(line => console.log(`   ${line}`));
+
+  const mappingStats = getIconMappingStats(options.language);
+  console.log(`📚 Keywords mapped to icons: ${mappingStats.mappedKeywords}/${mappingStats.totalKeywords}`);
+  console.log();
+
+  const playlists = await loadPlaylists(options);
+  if (playlists.length === 0) {
+    console.log('🤷 No playlists to analyze.');
+    return;
+  }
+
+  console.log('\n🔍 Analyzing tracks for missing icons...');
+  const report = buildReport(playlists, options);
+
+  displayReport(report);
+
+  const outputPath = options.output || getMissingIconsReportFile(options.language);
+  saveReport(report, outputPath);
+
+  if (report.keywords.length > 0) {
+    console.log(`\n💡 Generate the missing icons with:`);
+    console.log(`   npm run generate -- --language ${options.language} --keywords ${outputPath}`);
+  }
+}
+
+function parseArgs(): ReportOptions {
+  const args = minimist(process.argv.slice(2));
+
+  const language = parseLanguageArg(args.language);
+
+  return {
+    bearer: args.bearer || '',
+    playlist: args.playlist,
+    language,
+    limit: args.limit ? parseInt(args.limit) : undefined,
+    output: args.output,
+    policy: parsePolicyArgs(args)
+  };
+}
+
+function showUsage(): void {
+  console.log(`
+Usage: ts-node src/report.ts [--bearer <TOKEN>] [options]
+
+Authentication:
+  --bearer <TOKEN>        Yoto bearer token (default: stored login from \`npm run login\`)
+
+Options:
+  --playlist <CARD_ID>    Analyze a single card (default: every card in your library)
+  --language <LANG>       Language for mappings: ${listLanguages().join(', ')} (default: english)
+  --limit <N>             Only list the top N missing keywords
+  --output <FILE>         Report path (default: data/missing_icons_<lang>.json)
+  --policy <FILE>         Matching policy file; matches it would hold back count as uncovered
+  --tiers, --min-relevance, --min-score
+                          Policy overrides, as in apply mode
+
+Examples:
+  ts-node src/report.ts --bearer $BEARER --language hebrew
+  ts-node src/report.ts --bearer $BEARER --playlist gkLcn --limit 10
+
+The report's "keywords" list can be passed straight to generate mode:
+  ts-node src/generate.ts --language hebrew --keywords data/missing_icons_hebrew.json
+`);
+}
+
+async function main(): Promise<void> {
+  try {
+    if (process.argv.includes('--help') || process.argv.includes('-h')) {
+      showUsage();
+      process.exit(0);
+    }
+
+    const options = parseArgs();
+    options.bearer = await resolveBearer(options.bearer || undefined);
+    await runReportMode(options);
+  } catch (error) {
+    console.error(`❌ Report mode failed: ${describeYotoError(error)}`);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main();
+}
@@ -0,0 +1,143 @@
+#!/usr/bin/env node
+
+import minimist from 'minimist';
+import { resolveBearer } from './auth';
+import { getCard, updateCard } from './yoto';
+import { describeYotoError } from './yotoHttp';
+import { listSnapshots, saveSnapshot, diffCardIcons } from './snapshots';
+import { RestoreOptions, CardSnapshot } from './types';
+
+function showSnapshots(cardId: string, snapshots: Array<{ file: string; snapshot: CardSnapshot }>): void {
+  console.log(`📸 Snapshots for card ${cardId}:`);
+  snapshots.forEach(({ file, snapshot }, i) => {
+    const title = snapshot.data?.card?.title || 'Untitled Playlist';
+    console.log(`  ${i + 1}. ${snapshot.takenAt} [${snapshot.reason}] "${title}" (${file})`);
+  });
+  console.log(`\n💡 Restore one with: npm run restore -- --bearer $BEARER --playlist ${cardId} --snapshot 1 --dry`);
+}
+
+function findSnapshot(
+  snapshots: Array<{ file: string; snapshot: CardSnapshot }>,
+  selector: string
+): { file: string; snapshot: CardSnapshot } | undefined {
+  if (/^\d+$/.test(selector)) {
+    return snapshots[parseInt(selector) - 1];
+  }
+  return snapshots.find(s => s.file === selector || s.file === `${selector}.json`);
+}
+
+async function runRestoreMode(options: RestoreOptions): Promise<void> {
+  console.log(`⏪ Restore Mode - Playlist: ${options.playlist}`);
+
+  const snapshots = listSnapshots(options.playlist);
+  if (snapshots.length === 0) {
+    console.log('🤷 No snapshots found for this card. Snapshots are taken on every live apply run.');
+    return;
+  }
+
+  if (!options.snapshot) {
+    showSnapshots(options.playlist, snapshots);
+    return;
+  }
+
+  const selected = findSnapshot(snapshots, String(options.snapshot));
+  if (!selected) {
+    console.error(`❌ Snapshot "${options.snapshot}" not found`);
+    showSnapshots(options.playlist, snapshots);
+    process.exit(1);
+  }
+
+  console.log(`${options.dryRun ? '🧪 DRY RUN MODE - No actual changes will be made' : '🚀 LIVE MODE - Changes will be applied'}`);
+  console.log(`📸 Snapshot: ${selected.snapshot.takenAt} (${selected.file})\n`);
+
+  // Only a restore talks to Yoto; listing snapshots reads local files
+  options.bearer = await resolveBearer(options.bearer || undefined);
+  console.log(`🔄 Fetching current card structure...`);
+  const current = await getCard(options.bearer, options.playlist);
+  const diffs = diffCardIcons(current, selected.snapshot.data);
+
+  if (diffs.length === 0) {
+    console.log('✅ Card icons already match this snapshot.');
+    return;
+  }
+
+  console.log(`\n🔍 ${diffs.length} icons differ (current → snapshot):`);
+  for (const diff of diffs) {
+    console.log(`  ${diff.title}`);
+    console.log(`     ${diff.before || '(none)'} → ${diff.after || '(none)'}`);
+  }
+
+  if (options.dryRun) {
+    console.log(`\n🧪 DRY RUN - Would restore ${diffs.length} icons`);
+    return;
+  }
+
+  // Snapshot the current state too, so the restore itself can be undone
+  const undoPath = saveSnapshot(options.playlist, current, 'restore');
+  console.log(`\n📸 Saved current state: ${undoPath}`);
+
+  const success = await updateCard(options.bearer, selected.snapshot.data.card);
+  if (!success) {
+    console.error('❌ Restore failed');
+    process.exit(1);
+  }
+
+  console.log(`\n🎉 Restored card ${options.playlist} to ${selected.snapshot.takenAt}`);
+}
+
+function parseArgs(): RestoreOptions {
+  const args = minimist(process.argv.slice(2));
+
+  if (!args.playlist) {
+    console.error('❌ --playlist ID is required');
+    process.exit(1);
+  }
+
+  return {
+    bearer: args.bearer || '',
+    playlist: args.playlist,
+    snapshot: args.snapshot !== undefined ? String(args.snapshot) : undefined,
+    dryRun: args.dry || args['dry-run'] || false
+  };
+}
+
+function showUsage(): void {
+  console.log(`
+Usage: ts-node src/restore.ts --playlist <CARD_ID> [--bearer <TOKEN>] [options]
+
+Required:
+  --playlist <CARD_ID>    Yoto playlist/card ID
+
+Authentication:
+  --bearer <TOKEN>        Yoto bearer token (default: stored login from \`npm run login\`)
+
+Options:
+  --snapshot <N|FILE>     Snapshot to restore (number from the listing or file name).
+                          Without it, the card's snapshots are listed.
+  --dry, --dry-run        Show the icon diff without restoring
+
+Examples:
+  ts-node src/restore.ts --bearer $BEARER --playlist gkLcn
+  ts-node src/restore.ts --bearer $BEARER --playlist gkLcn --snapshot 1 --dry
+  ts-node src/restore.ts --bearer $BEARER --playlist gkLcn --snapshot 1
+`);
+}
+
+async function main(): Promise<void> {
+  try {
+    if (process.argv.includes('--help') || process.argv.includes('-h')) {
+      showUsage();
+      process.exit(0);
+    }
+
+    const options = parseArgs();
+    await runRestoreMode(options);
+  } catch (error) {
+    console.error(`❌ Restore mode failed: ${describeYotoError(error)}`);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main();
+}
@@ -0,0 +1,200 @@
+import * as readline from 'readline';
+import { suggestMatches, resolveKeyword, selectIcon } from './matchIcon';
+import { formatTextForDisplay } from './languages';
+import { addOverride, normalizeIconId } from './overrides';
+import { MatchResult, IconUpdate, Language, IconOverride } from './types';
+
+const CONFIDENCE_ICONS = {
+  exact: '✅',
+  partial: '🟡',
+  semantic: '🧠',
+  ai: '🤖',
+  override: '📌',
+  none: '❌'
+} as const;
+
+type LineReader = AsyncIterator<string>;
+
+// Reads from a buffered line iterator so piped answers are not dropped; end of input skips the rest
+async function ask(lines: LineReader, question: string): Promise<string> {
+  process.stdout.write(question);
+  const { value, done } = await lines.next();
+  return done ? 'q' : String(value).trim();
+}
+
+// Icon references typed by hand: "yoto:#id", an icon URL, or a long bare ID
+function looksLikeIconId(text: string): boolean {
+  return /^yoto:#|^https?:\/\//.test(text) || /^[\w-]{20,}$/.test(text);
+}
+
+/**
+ * Asks what to pin the track's title to and saves it to overrides.json.
+ * Returns the override, or null when the answer could not be used.
+ */
+async function pinTrack(
+  lines: LineReader,
+  match: MatchResult,
+  language: Language,
+  cardId?: string
+): Promise<IconOverride | null> {
+  const target = await ask(lines, '    Pin to keyword or icon ID (Enter = proposed, - = never set an icon): ');
+  const entry: IconOverride = { title: match.track.title };
+
+  if (target === '-') {
+    entry.skip = true;
+  } else if (target === '') {
+    if (!match.iconId) {
+      console.log(`    ⚠️  Nothing proposed to pin - type a keyword or icon ID`);
+      return null;
+    }
+    entry.iconId = match.iconId;
+  } else {
+    const keyword = resolveKeyword(target, language);
+    if (keyword) {
+      entry.keyword = keyword;
+    } else if (looksLikeIconId(target)) {
+      entry.iconId = normalizeIconId(target);
+    } else {
+      console.log(`    ⚠️  "${target}" is neither a known keyword nor an icon ID`);
+      return null;
+    }
+  }
+
+  if (cardId && (await ask(lines, '    Only on this card? [y/N] ')).toLowerCase() === 'y') {
+    entry.card = cardId;
+  }
+
+  const filePath = addOverride(entry);
+  console.log(`    📌 Saved to ${filePath}`);
+  return entry;
+}
+
+function showTrack(
+  match: MatchResult,
+  index: number,
+  total: number,
+  alternatives: Array<{ keyword: string; iconId: string | null; relevance: number }>,
+  language: Language,
+  heldBackReason?: string
+): void {
+  const displayTitle = formatTextForDisplay(match.track.title, language);
+  console.log(`\n[${index + 1}/${total}] "${displayTitle}"`);
+  console.log(`    Current icon: ${match.track.display?.icon16x16 || '(none)'}`);
+
+  if (match.keyword && match.iconId) {
+    console.log(`    Proposed: ${match.keyword} (${match.iconId}) ${CONFIDENCE_ICONS[match.confidence]} ${match.confidence}`);
+    if (match.explanation?.length) {
+      console.log(`    Why: ${match.explanation.join('; ')}`);
+    }
+    if (heldBackReason) {
+      console.log(`    ⏸️  Held back by the matching policy (${heldBackReason}) - [y] to apply it anyway`);
+    }
+  } else if (match.keyword) {
+    console.log(`    Proposed: ${match.keyword} (no icon mapping available)`);
+  } else {
+    console.log(`    Proposed: no match`);
+  }
+
+  if (alternatives.length > 0) {
+    console.log(`    Alternatives:`);
+    alternatives.forEach((alt, i) => {
+      console.log(`      ${i + 1}) ${alt.keyword} (${alt.iconId}) ${alt.relevance.toFixed(1)}%`);
+    });
+  }
+}
+
+/**
+ * Walks the match list track by track and returns only the updates the user
+ * approved. Accepting the rest in bulk or quitting early are both supported.
+ * Matches in `heldBack` (with the policy's reason) are only applied on an
+ * explicit "y", never by Enter or by accepting the rest.
+ */
+export async function reviewMatches(
+  matches: MatchResult[],
+  language: Language = 'english',
+  rotation?: Map<string, number>,
+  cardId?: string,
+  heldBack: Map<MatchResult, string> = new Map()
+): Promise<IconUpdate[]> {
+  const approved: IconUpdate[] = [];
+  const rl = readline.createInterface({ input: process.stdin, terminal: false });
+  const lines: LineReader = rl[Symbol.asyncIterator]();
+
+  console.log('\n🧑‍⚖️  Interactive review');
+  console.log('    [Enter] accept  [y] accept, even if held back  [1-9] pick alternative  [k] type keyword  [p] pin for future runs  [s] skip  [a] accept rest  [q] skip rest');
+
+  try {
+    for (let i = 0; i < matches.length; i++) {
+      const match = matches[i];
+      const alternatives = suggestMatches(match.track.title, 4, language)
+        .filter(s => s.iconId && s.keyword !== match.keyword)
+        .slice(0, 3);
+
+      const heldBackReason = match.iconId ? heldBack.get(match) : undefined;
+      showTrack(match, i, matches.length, alternatives, language, heldBackReason);
+
+      let decided = false;
+      while (!decided) {
+        const answer = (await ask(lines, '    > ')).toLowerCase();
+
+        if (answer === '' && heldBackReason) {
+          console.log(`    ⚠️  Held back by the matching policy - [y] to apply it anyway, [s] to skip`);
+        } else if (answer === '' || answer === 'y') {
+          if (match.iconId) {
+            approved.push({ track: match.track, iconId: match.iconId });
+            console.log(`    ✓ Accepted ${match.keyword}`);
+          } else {
+            console.log(`    ⏭️  Nothing to accept - skipped`);
+          }
+          decided = true;
+        } else if (answer === 's' || answer === 'n') {
+          console.log(`    ⏭️  Skipped`);
+          decided = true;
+        } else if (answer === 'a' || answer === 'q') {
+          const remaining = matches.slice(i).filter(m => m.iconId);
+          const rest = answer === 'a' ? remaining.filter(m => !heldBack.has(m)) : [];
+          approved.push(...rest.map(m => ({ track: m.track, iconId: m.iconId! })));
+          const leftOut = remaining.length - rest.length;
+          console.log(answer === 'a'
+            ? `    ✓ Accepted ${rest.length} remaining matches${leftOut > 0 ? `, left out ${leftOut} held back by the matching policy` : ''}`
+            : `    ⏹️  Skipped ${matches.length - i} remaining tracks`);
+          return approved;
+        } else if (/^\d+$/.test(answer) && alternatives[parseInt(answer) - 1]) {
+          const alt = alternatives[parseInt(answer) - 1];
+          approved.push({ track: match.track, iconId: alt.iconId! });
+          console.log(`    ✓ Using ${alt.keyword}`);
+          decided = true;
+        } else if (answer === 'k') {
+          const typed = await ask(lines, '    Keyword: ');
+          const keyword = resolveKeyword(typed, language);
+          const iconId = keyword ? selectIcon(keyword, rotation, language) : null;
+          if (keyword && iconId) {
+            approved.push({ track: match.track, iconId });
+            console.log(`    ✓ Using ${keyword} (${iconId})`);
+            decided = true;
+          } else {
+            console.log(`    ⚠️  No icon available for "${typed}" - try again`);
+          }
+        } else if (answer === 'p') {
+          const pinned = await pinTrack(lines, match, language, cardId);
+          if (!pinned) continue;
+
+          const iconId = pinned.keyword ? selectIcon(pinned.keyword, rotation, language) : pinned.iconId;
+          if (iconId) {
+            approved.push({ track: match.track, iconId });
+            console.log(`    ✓ Using ${pinned.keyword || iconId}`);
+          } else {
+            console.log(`    ⏭️  Skipped${pinned.keyword ? ` (${pinned.keyword} has no icon yet)` : ''}`);
+          }
+          decided = true;
+        } else {
+          console.log(`    ⚠️  Unknown choice "${answer}"`);
+        }
+      }
+    }
+  } finally {
+    rl.close();
+  }
+
+  return approved;
+}
@@ -0,0 +1,155 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { CONFIG, getEmbeddingIndexFile } from './config';
+import { getProvider, LLMProvider } from './llm';
+import { loadSynonyms } from './matchIcon';
+import { EmbeddingIndex, Language, YotoSynonyms } from './types';
+
+export interface SemanticMatch {
+  keyword: string;
+  similarity: number; // Cosine similarity, -1 to 1
+}
+
+function encodeVector(vector: number[]): string {
+  return Buffer.from(new Float32Array(vector).buffer).toString('base64');
+}
+
+function decodeVector(encoded: string): Float32Array {
+  // Copied so the float view is always 4-byte aligned
+  return new Float32Array(new Uint8Array(Buffer.from(encoded, 'base64')).buffer);
+}
+
+export function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+// One text per keyword, so the vector carries every synonym's meaning
+function keywordDocument(keyword: string, synonyms: string[]): string {
+  return `${keyword.replace(/_/g, ' ')}: ${synonyms.join(', ')}`;
+}
+
+function hashSynonyms(synonyms: YotoSynonyms): string {
+  return crypto.createHash('sha1').update(JSON.stringify(synonyms)).digest('hex');
+}
+
+export function loadEmbeddingIndex(language: Language): EmbeddingIndex | null {
+  try {
+    return JSON.parse(fs.readFileSync(path.resolve(getEmbeddingIndexFile(language)), 'utf-8'));
+  } catch (error) {
+    return null;
+  }
+}
+
+export function saveEmbeddingIndex(index: EmbeddingIndex, language: Language): string {
+  const filePath = path.resolve(getEmbeddingIndexFile(language));
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(index), 'utf-8');
+  return filePath;
+}
+
+async function embedInBatches(provider: LLMProvider, texts: string[]): Promise<number[][]> {
+  const vectors: number[][] = [];
+  for (let i = 0; i < texts.length; i += CONFIG.EMBEDDING_BATCH_SIZE) {
+    vectors.push(...await provider.embed(texts.slice(i, i + CONFIG.EMBEDDING_BATCH_SIZE)));
+  }
+  return vectors;
+}
+
+/**
+ * Loads the language's vector index, re-embedding the keywords when the
+ * synonyms or the embedding model changed. Title vectors are kept until
+ * the model changes.
+ */
+export async function loadKeywordEmbeddings(language: Language): Promise<EmbeddingIndex> {
+  const provider = getProvider();
+  const synonyms = loadSynonyms(language);
+  const synonymsHash = hashSynonyms(synonyms);
+  const existing = loadEmbeddingIndex(language);
+
+  if (existing && existing.model === provider.embeddingModel && existing.synonymsHash === synonymsHash) {
+    return existing;
+  }
+
+  const keywords = Object.keys(synonyms);
+  console.log(`🧮 Embedding ${keywords.length} keywords with ${provider.embeddingModel}...`);
+  const vectors = await embedInBatches(provider, keywords.map(keyword => keywordDocument(keyword, synonyms[keyword])));
+
+  const index: EmbeddingIndex = {
+    version: 1,
+    model: provider.embeddingModel,
+    synonymsHash,
+    keywords: {},
+    titles: existing?.model === provider.embeddingModel ? existing.titles : {}
+  };
+  keywords.forEach((keyword, i) => {
+    index.keywords[keyword] = encodeVector(vectors[i]);
+  });
+  saveEmbeddingIndex(index, language);
+  return index;
+}
+
+/**
+ * Matches titles to the closest keyword by embedding similarity, for
+ * titles the lexical ranking could not place ("Hungry Caterpillar" →
+ * butterfly). Only `keywords` are considered, and only matches at or
+ * above the threshold are returned. Never throws: without embeddings the
+ * tier is skipped.
+ */
+export async function semanticMatchKeywords(
+  trackTitles: string[],
+  language: Language,
+  keywords: string[],
+  threshold: number = CONFIG.SEMANTIC_THRESHOLD
+): Promise<Map<string, SemanticMatch>> {
+  const matches = new Map<string, SemanticMatch>();
+  if (trackTitles.length === 0 || keywords.length === 0) return matches;
+  try {
+    getProvider();
+  } catch {
+    return matches; // No provider configured (e.g. no API key): the tier is skipped quietly
+  }
+
+  try {
+    const index = await loadKeywordEmbeddings(language);
+    const candidates = keywords
+      .filter(keyword => index.keywords[keyword])
+      .map(keyword => ({ keyword, vector: decodeVector(index.keywords[keyword]) }));
+
+    const titles = Array.from(new Set(trackTitles));
+    const missing = titles.filter(title => !index.titles[title]);
+    if (missing.length > 0) {
+      const vectors = await embedInBatches(getProvider(), missing);
+      missing.forEach((title, i) => {
+        index.titles[title] = encodeVector(vectors[i]);
+      });
+      saveEmbeddingIndex(index, language);
+    }
+
+    for (const title of titles) {
+      const vector = decodeVector(index.titles[title]);
+      let best: SemanticMatch | null = null;
+      for (const candidate of candidates) {
+        const similarity = cosineSimilarity(vector, candidate.vector);
+        if (!best || similarity > best.similarity) {
+          best = { keyword: candidate.keyword, similarity };
+        }
+      }
+      if (best && best.similarity >= threshold) {
+        matches.set(title, best);
+      }
+    }
+  } catch (error) {
+    console.warn(`⚠️  Semantic matching unavailable: ${error instanceof Error ? error.message : error}`);
+  }
+
+  return matches;
+}
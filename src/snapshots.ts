@@ -0,0 +1,84 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CONFIG } from './config';
+import { CardSnapshot, IconDiff } from './types';
+
+function getSnapshotDir(cardId: string): string {
+  return path.resolve(CONFIG.SNAPSHOTS_DIR, cardId);
+}
+
+export function saveSnapshot(cardId: string, data: any, reason: CardSnapshot['reason']): string {
+  const dir = getSnapshotDir(cardId);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  const takenAt = new Date().toISOString();
+  const snapshot: CardSnapshot = { cardId, takenAt, reason, data };
+  const filePath = path.join(dir, `${takenAt.replace(/[:.]/g, '-')}.json`);
+
+  fs.writeFileSync(filePath, JSON.stringify(snapshot, null, 2), 'utf-8');
+  return filePath;
+}
+
+// Newest first
+export function listSnapshots(cardId: string): Array<{ file: string; snapshot: CardSnapshot }> {
+  const dir = getSnapshotDir(cardId);
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+
+  return fs.readdirSync(dir)
+    .filter(file => file.endsWith('.json'))
+    .sort()
+    .reverse()
+    .map(file => ({
+      file,
+      snapshot: JSON.parse(fs.readFileSync(path.join(dir, file), 'utf-8')) as CardSnapshot
+    }));
+}
+
+function collectIcons(cardData: any): Map<string, { title: string; icon?: string }> {
+  const icons = new Map<string, { title: string; icon?: string }>();
+
+  for (const chapter of cardData?.card?.content?.chapters || []) {
+    icons.set(`chapter:${chapter.key}`, {
+      title: chapter.title || chapter.key,
+      icon: chapter.display?.icon16x16
+    });
+
+    for (const track of chapter.tracks || []) {
+      icons.set(`track:${chapter.key}/${track.key}`, {
+        title: track.title || track.key,
+        icon: track.display?.icon16x16
+      });
+    }
+  }
+
+  return icons;
+}
+
+/**
+ * Icon-level differences between two card responses, keyed by chapter and
+ * track keys. Entries missing on one side show up with an undefined icon.
+ */
+export function diffCardIcons(before: any, after: any): IconDiff[] {
+  const beforeIcons = collectIcons(before);
+  const afterIcons = collectIcons(after);
+  const keys = new Set([...beforeIcons.keys(), ...afterIcons.keys()]);
+  const diffs: IconDiff[] = [];
+
+  for (const key of keys) {
+    const b = beforeIcons.get(key);
+    const a = afterIcons.get(key);
+    if (b?.icon !== a?.icon) {
+      diffs.push({
+        title: `${key.startsWith('chapter:') ? 'Chapter' : 'Track'} "${(b || a)!.title}"`,
+        before: b?.icon,
+        after: a?.icon
+      });
+    }
+  }
+
+  return diffs;
+}
@@ -2,6 +2,25 @@ export interface YotoIconMapping {
   [keyword: string]: string; // keyword -> "yoto:#iconId"
 }
 
+// Where a mapping came from: "vision" (described by plan, the default) or "generated" (made and uploaded by generate)
+export type IconProvenance = 'vision' | 'generated';
+
+export interface IconCandidate {
+  iconId: string;     // "yoto:#iconId"
+  label?: string;     // Raw Vision label that produced this mapping
+  model?: string;     // Model that described (or, for generated icons, drew) the icon
+  createdAt?: string; // ISO timestamp
+  provenance?: IconProvenance;
+  file?: string;      // Generated icons: the PNG that was uploaded
+}
+
+export interface IconMappingStore {
+  version: 2;
+  keywords: {
+    [keyword: string]: IconCandidate[]; // keyword -> every icon seen for it, primary first
+  };
+}
+
 export interface YotoSynonyms {
   [keyword: string]: string[]; // keyword -> array of synonyms
 }
@@ -19,34 +38,366 @@ export interface YotoTrack {
     icon16x16?: string;
   };
   chapterKey?: string;
+  chapterTitle?: string; // Title of the chapter holding the track, when it has one
   trackKey?: string;
 }
 
-export interface PlanOptions {
+export interface MatchResult {
+  track: YotoTrack;
+  keyword: string | null;
+  iconId: string | null;
+  confidence: 'exact' | 'partial' | 'semantic' | 'ai' | 'override' | 'none';
+  searchTerms: string[];
+  explanation?: string[]; // Ranking reasons for exact/partial matches
+  source?: MatchSource;   // Context mode: which title the keyword came from
+  score?: number;         // Ranking score (exact/partial) or cosine similarity (semantic)
+  relevance?: number;     // 0-100, share of the title the keyword explains (exact/partial)
+}
+
+/**
+ * Where a context-mode match came from:
+ * - track: the track's own title
+ * - chapter: the chapter title, or the keyword most of the chapter's tracks matched
+ * - neighbours: both adjacent tracks strongly matched it
+ * - card: the card title
+ */
+export type MatchSource = 'track' | 'chapter' | 'neighbours' | 'card';
+
+/**
+ * A local correction from overrides.json. Matches by exact title or by
+ * regex, optionally on one card only, and pins an icon, a keyword, or
+ * "never set an icon here" (skip).
+ */
+export interface IconOverride {
+  title?: string;   // Exact track title, compared case-insensitively
+  pattern?: string; // Regex tested against the track title, case-insensitive
+  card?: string;    // Only applies on this card
+  iconId?: string;  // "yoto:#id", a bare ID or an icon URL
+  keyword?: string; // Synonym keyword; its icon is used
+  skip?: boolean;   // Never set an icon on matching tracks
+  note?: string;
+}
+
+export interface IconOverridesFile {
+  version: 1;
+  overrides: IconOverride[];
+}
+
+export interface PromptStyle {
+  description: string;
+  prompt: string;       // Template; {concept} is the keyword's concept, {palette} the colours below or the catalog's
+  negative?: string[];  // Added to the shared negative instructions
+  palette?: string[];   // Fallback colours for {palette} when the icon cache is empty
+}
+
+export interface PromptKeywordOverride {
+  concept?: string;     // Replaces the language gloss in the prompt
+  negative?: string[];  // Extra negative instructions for this keyword
+}
+
+// prompts/icons.json
+export interface PromptTemplates {
+  defaultStyle: string;
+  negative: string[];   // Negative instructions for every style
+  styles: { [name: string]: PromptStyle };
+  keywords: { [language: string]: { [keyword: string]: PromptKeywordOverride } };
+}
+
+// Written next to each generated image, so a good result can be reproduced
+export interface GeneratedImageSidecar {
+  keyword: string;
+  language: Language;
+  style: string;
+  prompt: string;
+  provider: string;
+  model: string;
+  seed: number | null;  // null when the provider takes no seed (OpenAI image models)
+  variant: number;
+  generatedAt: string;
+  raw: string;
+  icon: string | null;
+}
+
+// Review state of a generated keyword, set in the gallery
+export type IconReviewDecision = 'pending' | 'approved' | 'rejected' | 'regenerate';
+
+export interface GeneratedVariant {
+  raw: string;         // Image as generated, relative to generated-icons/
+  icon: string | null; // 16x16 version; null when post-processing failed
+}
+
+export interface GeneratedIconEntry {
+  keyword: string;
+  language: Language;
+  style: string;
+  prompt: string;
+  model: string;
+  generatedAt: string;       // ISO timestamp of the latest generation
+  variants: GeneratedVariant[];
+  decision: IconReviewDecision;
+  approvedVariant?: number;  // Index into variants when approved
+  decidedAt?: string;
+  uploadedIconId?: string;   // "yoto:#id" once the approved variant is uploaded and mapped
+}
+
+export interface GeneratedIconsManifest {
+  version: 1;
+  icons: GeneratedIconEntry[];
+}
+
+// What the gallery's "Save decisions" button downloads
+export interface ReviewDecisionsFile {
+  version: 1;
+  decisions: Array<Pick<GeneratedIconEntry, 'keyword' | 'language' | 'decision' | 'approvedVariant' | 'decidedAt'>>;
+}
+
+export interface MatchStats {
+  total: number;
+  exact: number;
+  partial: number;
+  semantic: number;
+  ai: number;
+  override: number;
+  none: number;
+}
+
+export interface CardApplyResult {
+  cardId: string;
+  title?: string;
+  stats?: MatchStats;
+  updated: number;
+  failed: number;
+  skipped: number; // Existing icons preserved by the overwrite policy
+  error?: string;  // Set when the card could not be processed at all
+}
+
+export interface IconUpdate {
+  track: YotoTrack;
+  iconId: string;
+}
+
+export interface CardSnapshot {
+  cardId: string;
+  takenAt: string; // ISO timestamp
+  reason: 'apply' | 'restore';
+  data: any; // Full `GET /content/{cardId}` response
+}
+
+export interface IconDiff {
+  title: string;
+  before?: string;
+  after?: string;
+}
+
+export interface RestoreOptions {
   bearer: string;
-  language: 'english' | 'hebrew';
+  playlist: string;
+  snapshot?: string; // Index from the listing, or snapshot file name
+  dryRun?: boolean;
+}
+
+export interface StoredCredentials {
+  clientId: string;
+  accessToken: string;
+  refreshToken?: string;
+  expiresAt: string; // ISO timestamp
+}
+
+// Which icons a plan run describes; the default is every icon not done yet
+export type PlanSelection = 'pending' | 'retry-failed' | 'only-new' | 'redo';
+
+export interface PlanOptions {
+  bearer: string; // Unused by Vision calls; accepted for symmetry with other commands
+  language: Language;
   startFrom?: number; // Resume from specific index
   batchSize?: number; // Process icons in batches
+  selection: PlanSelection;
+  redo?: string[];    // Icon IDs for --redo
+}
+
+export type PlanIconStatus = 'done' | 'failed';
+
+export interface PlanIconState {
+  status: PlanIconStatus;
+  label?: string;          // Vision label of the last successful description
+  keyword?: string | null; // Keyword it resolved to; null = recorded as an orphan label
+  error?: string;          // Last failure
+  attempts: number;        // Descriptions tried so far, successful or not
+  model: string;
+  updatedAt: string;       // ISO timestamp of the last attempt
+}
+
+// data/plan_state_<language>.json
+export interface PlanState {
+  version: 1;
+  icons: { [iconId: string]: PlanIconState }; // Bare icon ID as in icon_ids.txt
+}
+
+/**
+ * How apply treats tracks that already have a non-default icon:
+ * - all: replace any icon
+ * - default-only: only fill tracks with no icon or Yoto's default icon
+ * - matched-better: also replace catalog icons we mapped, when the new match is exact
+ */
+export type OverwritePolicy = 'all' | 'default-only' | 'matched-better';
+
+// Confidence levels a matching policy can allow
+export type MatchTier = 'exact' | 'partial' | 'semantic' | 'ai';
+
+/**
+ * Which matches apply mode may send, from matching-policy.json and flags.
+ * Floors only apply to the tiers they describe.
+ */
+export interface MatchingPolicy {
+  tiers: MatchTier[];
+  minRelevance: number;      // 0-100; exact/partial matches explaining less of the title are held back
+  minScore: number;          // Ranking score floor for exact/partial matches
+  semanticThreshold: number; // Minimum cosine similarity for semantic matches
+  ai: boolean;               // Ask the AI about tracks nothing else matched
+  maxAiCalls: number | null; // AI requests allowed per run; null = no limit
+  overwrite: OverwritePolicy; // "default-only" = fill only blank tracks
+  cards: { [cardId: string]: CardPolicyOverride };
+  source?: string;           // File the policy was read from, if any
 }
 
+export type CardPolicyOverride = Partial<Omit<MatchingPolicy, 'cards' | 'maxAiCalls' | 'source'>>;
+
 export interface ApplyOptions {
-  bearer: string;
-  playlist: string;
+  bearer: string; // Explicit token, or '' to use the stored login
+  playlists: string[]; // Card IDs to process, in order
+  all?: boolean; // Process every card in the library
   dryRun?: boolean;
-  aiMatch?: boolean; // Use OpenAI to find closest matches
-  language?: 'english' | 'hebrew'; // Language for icon mappings
+  language?: Language; // Language for icon mappings
+  rotate?: boolean; // Cycle through candidate icons for repeated keywords
+  interactive?: boolean; // Review each match before it is sent
+  policy: MatchingPolicy;
+  context?: boolean; // Fall back to chapter/card titles and keep chapters consistent
+  refreshAi?: boolean; // Ignore cached AI matches
+}
+
+export interface ReportOptions {
+  bearer: string;
+  playlist?: string; // Analyze a single card; omit to scan every card in the library
+  language: Language;
+  limit?: number; // Max missing keywords to list
+  output?: string; // Path for the machine-readable report
+  policy: MatchingPolicy;
+}
+
+export interface MissingKeyword {
+  keyword: string;
+  tracks: number;     // Tracks whose best match is this keyword
+  suggested: number;  // Unmatched tracks where it was the top unmapped suggestion
+  examples: string[]; // Sample track titles
+}
+
+export interface MissingIconsReport {
+  generatedAt: string;
+  language: Language;
+  cards: string[];
+  totalTracks: number;
+  covered: number;        // Tracks that already resolve to an icon
+  missingIcon: number;    // Tracks matched to a keyword with no icon
+  unmatched: number;      // Tracks with no keyword match at all
+  keywords: string[];     // Ranked list, consumable by `generate --keywords`
+  missing: MissingKeyword[];
+  policy: MatchingPolicy; // Policy that decided which matches count as covered
+}
+
+export interface OrphanLabels {
+  [label: string]: string[]; // Vision label with no synonym category -> icon IDs
 }
 
 export interface VisionResult {
   iconId: string;
-  keyword: string;
+  label: string; // Raw Vision label
   success: boolean;
   error?: string;
 }
 
-export type Language = 'english' | 'hebrew';
+export interface AiMatchCacheEntry {
+  keyword: string | null; // null = the model found no fitting keyword
+  matchedAt: string;      // ISO timestamp
+}
+
+export interface AiMatchCache {
+  version: 1;
+  entries: { [key: string]: AiMatchCacheEntry }; // "language|model|title" -> answer
+}
+
+export interface EmbeddingIndex {
+  version: 1;
+  model: string;        // Embedding model; another model means re-embedding everything
+  synonymsHash: string; // sha1 of the synonyms the keyword vectors came from
+  keywords: { [keyword: string]: string }; // keyword -> base64 float32 vector of "keyword: synonyms"
+  titles: { [title: string]: string };     // Track titles embedded so far, same encoding
+}
+
+export interface IconFingerprint {
+  aHash: string;       // 64-bit average hash, hex
+  dHash: string;       // 64-bit difference hash, hex
+  histogram: number[]; // 64-bin (4x4x4) RGB histogram of opaque pixels, sums to 1
+}
+
+export interface IconCacheEntry extends IconFingerprint {
+  file: string;   // Path of the cached PNG, relative to the cache dir
+  sha1: string;   // Of the PNG bytes; a changed file gets re-indexed
+  width: number;
+  height: number;
+}
+
+export interface IconCacheIndex {
+  version: 1;
+  icons: { [iconId: string]: IconCacheEntry };
+}
+
+export interface IconSimilarity {
+  iconId: string;
+  score: number;         // 0-1, 1 = identical
+  aHashDistance: number; // Differing bits out of 64
+  dHashDistance: number;
+  colorOverlap: number;  // Histogram intersection, 0-1
+}
+
+// Name of a definition in languages/, e.g. "english"
+export type Language = string;
+
+export interface AffixRule {
+  text: string;
+  minLength: number; // Only strip from words at least this long
+}
+
+// Spellings of one word: "close" ones are safe, "loose" ones (stems with
+// proclitics or endings removed) are guesses that rank below them
+export interface WordVariants {
+  close: string[];
+  loose: string[];
+}
+
+/**
+ * Text handling a matcher applies to titles, synonym terms and Vision labels.
+ * Works per word script, so Hebrew words in an English title still get
+ * Hebrew prefix stripping.
+ */
+export interface TextNormalizer {
+  normalize(text: string): string;
+  wordVariants(word: string): WordVariants;
+  termVariants(term: string): WordVariants;
+  labelVariants(label: string): WordVariants;
+}
 
-export interface LanguagePrompts {
-  english: string;
-  hebrew: string;
+export interface LanguageDefinition {
+  name: Language;
+  displayName: string;
+  visionPrompt: string;        // Plan mode prompt; asks for one word in this language
+  rtl: boolean;
+  script: string;              // Regex character-class body for this language's letters
+  synonymsFile: string;
+  normalizer: string;          // Spelling normalizer in matchIcon.ts ("none", "hebrew")
+  prefixes: AffixRule[];       // Clitics stripped from title words and labels
+  labelSuffixes: AffixRule[];  // Plural endings stripped from Vision labels
+  gloss: { [keyword: string]: string }; // English concept for image prompts
+  genericWords: string[];      // Words that say little about the picture ("song"); ranked down
+  possessiveWords: string[];   // Words after which a title names an owner ("של"); the owner ranks below the head noun
+  idioms: string[];            // Set phrases whose words match nothing ("לילה טוב" is a greeting)
 }
\ No newline at end of file
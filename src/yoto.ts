@@ -1,34 +1,32 @@
-import fetch from 'node-fetch';
 import { CONFIG } from './config';
-import { YotoPlaylist, YotoTrack } from './types';
+import { saveSnapshot } from './snapshots';
+import { yotoRequest, describeYotoError, YotoApiError, YotoAuthError } from './yotoHttp';
+import { YotoPlaylist, IconUpdate } from './types';
+
+// Normalizes "yoto:#id" and full media URLs to the "yoto:#id" form
+export function toIconRef(icon: string): string {
+  const prefix = `${CONFIG.YOTO_ICON_URL}/`;
+  if (icon.startsWith(prefix)) {
+    return `yoto:#${icon.substring(prefix.length)}`;
+  }
+  return icon;
+}
 
-async function sleep(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
+export function isDefaultIcon(icon?: string): boolean {
+  if (!icon) return true;
+  const ref = toIconRef(icon);
+  return (CONFIG.DEFAULT_ICON_IDS as readonly string[]).some(id => ref === `yoto:#${id}`);
 }
 
-function getHeaders(bearerToken: string) {
-  return {
-    'Authorization': `Bearer ${bearerToken}`,
-    'Content-Type': 'application/json',
-    'Accept': 'application/json'
-  };
+// Raw `GET /content/{cardId}` response, as the API returns it
+export async function getCard(bearerToken: string, cardId: string): Promise<any> {
+  return yotoRequest(bearerToken, `/content/${encodeURIComponent(cardId)}`);
 }
 
 export async function getPlaylist(bearerToken: string, cardId: string): Promise<YotoPlaylist> {
-  const url = `${CONFIG.YOTO_API_BASE}/content/${cardId}`;
-
   console.log(`🔍 Fetching playlist: ${cardId}`);
 
-  const response = await fetch(url, {
-    method: 'GET',
-    headers: getHeaders(bearerToken)
-  });
-
-  if (!response.ok) {
-    throw new Error(`Failed to fetch playlist ${cardId}: ${response.status} ${response.statusText}`);
-  }
-
-  const data = await response.json() as any;
+  const data = await getCard(bearerToken, cardId);
 
   // Transform API response to our interface
   // Yoto API returns chapters, each containing tracks
@@ -63,6 +61,7 @@ export async function getPlaylist(bearerToken: string, cardId: string): Promise<
       title: track.title || 'Untitled Track',
       display: track.display || {},
       chapterKey: track.chapterKey,
+      chapterTitle: track.chapterTitle,
       trackKey: track.key
     }))
   };
@@ -71,29 +70,34 @@ export async function getPlaylist(bearerToken: string, cardId: string): Promise<
   return playlist;
 }
 
-export async function updateCard(bearerToken: string, cardData: any): Promise<boolean> {
-  const url = `${CONFIG.YOTO_API_BASE}/content`;
+export async function listMyCards(bearerToken: string): Promise<Array<{ cardId: string; title: string }>> {
+  console.log(`📇 Listing cards in library...`);
 
+  const data = await yotoRequest(bearerToken, '/content/mine');
+  const cards = Array.isArray(data.cards) ? data.cards : [];
+
+  const result = cards
+    .filter((card: any) => card.cardId)
+    .map((card: any) => ({
+      cardId: card.cardId,
+      title: card.title || 'Untitled Playlist'
+    }));
+
+  console.log(`  ✓ Found ${result.length} cards`);
+  return result;
+}
+
+export async function updateCard(bearerToken: string, cardData: any): Promise<boolean> {
   console.log(`🎨 Bulk updating card ${cardData.cardId}...`);
 
   try {
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: getHeaders(bearerToken),
-      body: JSON.stringify(cardData)
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`  ✗ Failed: ${response.status} ${response.statusText}`);
-      console.error(`  ✗ Error details: ${errorText}`);
-      return false;
-    }
-
+    await yotoRequest(bearerToken, '/content', { method: 'POST', body: cardData });
     console.log(`  ✓ Successfully updated card`);
     return true;
   } catch (error) {
-    console.error(`  ✗ Error:`, error);
+    // An expired token fails every later call too, so let callers stop early
+    if (error instanceof YotoAuthError) throw error;
+    console.error(`  ✗ Failed: ${describeYotoError(error)}`);
     return false;
   }
 }
@@ -101,7 +105,7 @@ export async function updateCard(bearerToken: string, cardData: any): Promise<bo
 export async function updateCardWithIcons(
   bearerToken: string,
   cardId: string,
-  updates: Array<{ track: YotoTrack; iconId: string }>,
+  updates: IconUpdate[],
   dryRun: boolean = false
 ): Promise<{ success: number; failed: number }> {
   console.log(`\n🎯 ${dryRun ? '[DRY RUN] ' : ''}Bulk updating ${updates.length} tracks...`);
@@ -116,16 +120,11 @@ export async function updateCardWithIcons(
   try {
     // Fetch the current card structure
     console.log(`🔄 Fetching current card structure...`);
-    const response = await fetch(`${CONFIG.YOTO_API_BASE}/content/${cardId}`, {
-      method: 'GET',
-      headers: getHeaders(bearerToken)
-    });
-
-    if (!response.ok) {
-      throw new Error(`Failed to fetch card: ${response.status} ${response.statusText}`);
-    }
+    const cardData = await getCard(bearerToken, cardId);
 
-    const cardData = await response.json() as any;
+    // Keep the untouched card so a bad run can be undone with `npm run restore`
+    const snapshotPath = saveSnapshot(cardId, cardData, 'apply');
+    console.log(`📸 Saved snapshot: ${snapshotPath}`);
 
     // Apply icon updates to the card structure
     console.log(`🔄 Applying ${updates.length} icon updates...`);
@@ -133,7 +132,7 @@ export async function updateCardWithIcons(
     for (const { track, iconId } of updates) {
       // Convert yoto:#ID format to full media URL
       const mediaUrl = iconId.startsWith('yoto:#')
-        ? `https://media-secure-v2.api.yotoplay.com/icons/${iconId.replace('yoto:#', '')}`
+        ? `${CONFIG.YOTO_ICON_URL}/${iconId.replace('yoto:#', '')}`
         : iconId;
 
       console.log(`📖 "${track.title}" → ${mediaUrl}`);
@@ -170,17 +169,38 @@ export async function updateCardWithIcons(
       : { success: 0, failed: updates.length };
 
   } catch (error) {
-    console.error(`❌ Bulk update failed:`, error);
+    if (error instanceof YotoAuthError) throw error;
+    console.error(`❌ Bulk update failed: ${describeYotoError(error)}`);
     return { success: 0, failed: updates.length };
   }
 }
 
+/**
+ * Uploads a PNG as a custom icon on the user's account and returns its
+ * "yoto:#mediaId" reference. Yoto converts the image to 16x16 itself,
+ * but a processed pixel-art PNG survives that unchanged.
+ */
+export async function uploadIcon(bearerToken: string, png: Buffer, filename: string): Promise<string> {
+  const query = new URLSearchParams({ autoConvert: 'true', filename });
+  const data = await yotoRequest(bearerToken, `/media/displayIcons/user/me/upload?${query}`, {
+    method: 'POST',
+    body: png,
+    contentType: 'image/png'
+  });
+
+  const mediaId = data.displayIcon?.mediaId;
+  if (!mediaId) {
+    throw new YotoApiError(`Upload response has no media ID: ${JSON.stringify(data).slice(0, 200)}`);
+  }
+  return `yoto:#${mediaId}`;
+}
+
 export async function validatePlaylist(bearerToken: string, cardId: string): Promise<boolean> {
   try {
     await getPlaylist(bearerToken, cardId);
     return true;
   } catch (error) {
-    console.error(`❌ Invalid playlist ${cardId}:`, error);
+    console.error(`❌ Invalid playlist ${cardId}: ${describeYotoError(error)}`);
     return false;
   }
 }
\ No newline at end of file
@@ -0,0 +1,246 @@
+import fetch, { RequestInit } from 'node-fetch';
+import { CONFIG } from './config';
+import { currentBearer, refreshBearer } from './auth';
+
+export class YotoApiError extends Error {
+  constructor(message: string, public readonly status?: number, public readonly url?: string) {
+    super(message);
+    this.name = 'YotoApiError';
+  }
+}
+
+// 401/403: the bearer token is missing, expired or lacks access
+export class YotoAuthError extends YotoApiError {
+  constructor(message: string, status?: number, url?: string) {
+    super(message, status, url);
+    this.name = 'YotoAuthError';
+  }
+}
+
+export class YotoNotFoundError extends YotoApiError {
+  constructor(message: string, status?: number, url?: string) {
+    super(message, status, url);
+    this.name = 'YotoNotFoundError';
+  }
+}
+
+// 429 that persisted through every retry
+export class YotoRateLimitError extends YotoApiError {
+  constructor(message: string, status?: number, url?: string) {
+    super(message, status, url);
+    this.name = 'YotoRateLimitError';
+  }
+}
+
+export class YotoServerError extends YotoApiError {
+  constructor(message: string, status?: number, url?: string) {
+    super(message, status, url);
+    this.name = 'YotoServerError';
+  }
+}
+
+// Connection failures and timeouts; `sent` is false when the request never reached the server
+export class YotoNetworkError extends YotoApiError {
+  constructor(message: string, url?: string, public readonly sent: boolean = true) {
+    super(message, undefined, url);
+    this.name = 'YotoNetworkError';
+  }
+}
+
+// A successful status with a body that is not JSON; the call may have taken effect, so it is not retried
+export class YotoResponseError extends YotoApiError {
+  constructor(message: string, status?: number, url?: string) {
+    super(message, status, url);
+    this.name = 'YotoResponseError';
+  }
+}
+
+export interface YotoRequestOptions {
+  method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  body?: unknown;       // Sent as JSON, except Buffers, which are sent as they are
+  contentType?: string; // For Buffer bodies (default: application/octet-stream)
+  timeoutMs?: number;
+  maxRetries?: number;
+}
+
+let lastRequestAt = 0;
+
+async function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Keeps at least YOTO_DELAY_MS between consecutive requests
+async function throttle(): Promise<void> {
+  const wait = lastRequestAt + CONFIG.YOTO_DELAY_MS - Date.now();
+  if (wait > 0) {
+    await sleep(wait);
+  }
+  lastRequestAt = Date.now();
+}
+
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+
+  const seconds = Number(header);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+// Exponential backoff with full jitter
+function backoffDelay(attempt: number): number {
+  const ceiling = Math.min(CONFIG.YOTO_RETRY_MAX_MS, CONFIG.YOTO_RETRY_BASE_MS * 2 ** attempt);
+  return Math.round(Math.random() * ceiling);
+}
+
+function errorForStatus(status: number, statusText: string, url: string, details: string): YotoApiError {
+  const message = `${status} ${statusText}${details ? `: ${details}` : ''}`;
+
+  if (status === 401 || status === 403) return new YotoAuthError(message, status, url);
+  if (status === 404) return new YotoNotFoundError(message, status, url);
+  if (status === 429) return new YotoRateLimitError(message, status, url);
+  if (status >= 500) return new YotoServerError(message, status, url);
+  return new YotoApiError(message, status, url);
+}
+
+// Errors that mean the connection was never made, so nothing reached the server
+const UNSENT_CODES = ['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN'];
+
+/**
+ * A POST that timed out, lost its connection or got a 5xx may already have
+ * been carried out (an upload, a card update), so it is only retried on a
+ * 429 or when it never left this machine.
+ */
+function isRetryable(error: YotoApiError, method: string): boolean {
+  if (error instanceof YotoRateLimitError) return true;
+  if (method === 'POST') {
+    return error instanceof YotoNetworkError && !error.sent;
+  }
+  return error instanceof YotoNetworkError || error instanceof YotoServerError;
+}
+
+// The server's Retry-After when it sent one, but never longer than the backoff ceiling
+export function retryDelay(retryAfter: number | null, attempt: number): number {
+  return retryAfter !== null ? Math.min(retryAfter, CONFIG.YOTO_RETRY_MAX_MS) : backoffDelay(attempt);
+}
+
+function parseBody<T>(text: string, status: number, url: string): T {
+  if (!text) return {} as T;
+  try {
+    return JSON.parse(text) as T;
+  } catch (error) {
+    throw new YotoResponseError(`${status} response is not JSON: ${text.slice(0, 200)}`, status, url);
+  }
+}
+
+function getHeaders(bearerToken: string, contentType: string = 'application/json') {
+  return {
+    'Authorization': `Bearer ${bearerToken}`,
+    'Content-Type': contentType,
+    'Accept': 'application/json'
+  };
+}
+
+/**
+ * Single entry point for Yoto API calls. Retries rate limits, server errors,
+ * network failures and timeouts with backoff (honouring Retry-After), and
+ * turns failures into typed errors callers can act on. A POST is not sent
+ * again once it may have reached the server, except after a 429.
+ */
+export async function yotoRequest<T = any>(
+  bearerToken: string,
+  apiPath: string,
+  options: YotoRequestOptions = {}
+): Promise<T> {
+  const url = `${CONFIG.YOTO_API_BASE}${apiPath}`;
+  const maxRetries = options.maxRetries ?? CONFIG.YOTO_MAX_RETRIES;
+  const timeoutMs = options.timeoutMs ?? CONFIG.YOTO_TIMEOUT_MS;
+  const method = options.method || 'GET';
+  let token = currentBearer(bearerToken);
+  let refreshed = false;
+
+  for (let attempt = 0; ; attempt++) {
+    await throttle();
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    let error: YotoApiError;
+    let retryAfter: number | null = null;
+
+    try {
+      const raw = Buffer.isBuffer(options.body);
+      const init: RequestInit = {
+        method,
+        headers: getHeaders(token, raw ? options.contentType || 'application/octet-stream' : undefined),
+        body: raw ? options.body as Buffer : options.body !== undefined ? JSON.stringify(options.body) : undefined,
+        signal: controller.signal as RequestInit['signal']
+      };
+      const response = await fetch(url, init);
+
+      if (response.ok) {
+        return parseBody<T>(await response.text(), response.status, url);
+      }
+
+      const details = await response.text().catch(() => '');
+      error = errorForStatus(response.status, response.statusText, url, details.slice(0, 200));
+      retryAfter = parseRetryAfter(response.headers.get('retry-after'));
+    } catch (caught) {
+      // The call went through; a body that cannot be read as JSON is never a reason to send it again
+      if (caught instanceof YotoResponseError) throw caught;
+      const aborted = caught instanceof Error && caught.name === 'AbortError';
+      const code = (caught as { code?: string }).code;
+      error = new YotoNetworkError(
+        aborted ? `Request timed out after ${timeoutMs}ms` : (caught instanceof Error ? caught.message : String(caught)),
+        url,
+        !code || !UNSENT_CODES.includes(code)
+      );
+    } finally {
+      clearTimeout(timer);
+    }
+
+    // A stored login can be refreshed once; an explicit --bearer cannot
+    if (error instanceof YotoAuthError && error.status === 401 && !refreshed) {
+      refreshed = true;
+      const fresh = await refreshBearer(token);
+      if (fresh) {
+        token = fresh;
+        attempt--;
+        continue;
+      }
+    }
+
+    if (!isRetryable(error, method) || attempt >= maxRetries) {
+      throw error;
+    }
+
+    const delay = retryDelay(retryAfter, attempt);
+    console.warn(`  ⏳ ${error.message} - retrying in ${(delay / 1000).toFixed(1)}s (${attempt + 1}/${maxRetries})`);
+    await sleep(delay);
+  }
+}
+
+// Human-readable next step for a failed Yoto call
+export function describeYotoError(error: unknown): string {
+  if (error instanceof YotoAuthError) {
+    return `Yoto rejected the bearer token (${error.status}). It has probably expired - run \`npm run login\` or pass a fresh --bearer token.`;
+  }
+  if (error instanceof YotoNotFoundError) {
+    return `Not found (${error.url}). Check the card/playlist ID and that it belongs to your account.`;
+  }
+  if (error instanceof YotoRateLimitError) {
+    return `Yoto is rate limiting requests (${error.message}). Wait a few minutes and try again.`;
+  }
+  if (error instanceof YotoServerError) {
+    return `Yoto server error (${error.message}). The service may be down - try again later.`;
+  }
+  if (error instanceof YotoResponseError) {
+    return `Yoto sent an unexpected response (${error.message}). The request may have gone through - check before retrying.`;
+  }
+  if (error instanceof YotoNetworkError) {
+    return `Could not reach Yoto (${error.message}). Check your network connection.`;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,70 @@
+import { after, before, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import { MockServer, runScript, startMockServer, useFixtureWorkspace } from './helpers';
+
+const CARD = {
+  card: {
+    cardId: 'card-1',
+    title: 'Bedtime',
+    content: {
+      chapters: [{
+        key: '01',
+        title: 'Bedtime',
+        tracks: [
+          { key: 't1', title: 'Goodnight Moon', display: {} },
+          { key: 't2', title: 'Zzyzx Qwrt', display: {} }
+        ]
+      }]
+    }
+  }
+};
+
+let server: MockServer;
+const workspace = useFixtureWorkspace({
+  'yoto_icon_ids_english.json': { version: 2, keywords: { moon: [{ iconId: 'yoto:#en-moon', label: 'moon' }] } }
+});
+
+// No key and no provider settings, as on a machine that was never set up for OpenAI
+const { OPENAI_API_KEY, LLM_PROVIDER, LLM_API_KEY, ...envWithoutProvider } = process.env;
+
+before(async () => {
+  server = await startMockServer(request => (request.url === '/content/card-1' ? { body: CARD } : { status: 404 }));
+  envWithoutProvider.YOTO_API_URL = server.url;
+  process.env.YOTO_API_URL = server.url;
+  delete process.env.OPENAI_API_KEY;
+  delete process.env.LLM_PROVIDER;
+});
+
+after(async () => {
+  await server.close();
+  workspace.cleanup();
+});
+
+describe('apply without a model provider', () => {
+  it('skips the AI tier and still applies lexical matches', async () => {
+    const { stdout } = await runScript('apply.ts', ['--bearer', 'token-1', '--playlist', 'card-1', '--dry'],
+      { cwd: workspace.dir, env: envWithoutProvider });
+
+    assert.match(stdout, /skipping AI tier: OPENAI_API_KEY environment variable is required/);
+    assert.match(stdout, /Would have updated 1 tracks/);
+    assert.ok(server.requests.every(request => request.method === 'GET'), 'a dry run sends no updates');
+  });
+
+  it('skips an opted-in semantic tier the same way', async () => {
+    const { stdout } = await runScript('apply.ts', ['--bearer', 'token-1', '--playlist', 'card-1', '--semantic', '--dry'],
+      { cwd: workspace.dir, env: envWithoutProvider });
+
+    assert.match(stdout, /skipping semantic tier/);
+    assert.match(stdout, /Would have updated 1 tracks/);
+  });
+
+  it('leaves titles unmatched, and caches nothing, when asked for AI matches directly', async () => {
+    const { aiMatchKeywords } = await import('../src/aiMatch');
+
+    const matches = await aiMatchKeywords(['Zzyzx Qwrt'], 'english', ['moon']);
+
+    assert.equal(matches.size, 0);
+    assert.equal(fs.existsSync('data/ai_match_cache.json'), false);
+  });
+});
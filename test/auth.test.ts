@@ -0,0 +1,141 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { formOf, makeTempDir, MockResponse, MockServer, startMockServer } from './helpers';
+
+// config.ts reads the endpoints and credentials path when first loaded, so auth is imported after they are set
+let auth: typeof import('../src/auth');
+let server: MockServer;
+let tokenResponses: MockResponse[] = [];
+const temp = makeTempDir();
+
+before(async () => {
+  server = await startMockServer(request => {
+    if (request.url === '/oauth/device/code') {
+      return {
+        body: {
+          device_code: 'device-1',
+          user_code: 'ABCD-EFGH',
+          verification_uri: 'https://example.test/activate',
+          expires_in: 60,
+          interval: 0
+        }
+      };
+    }
+    if (request.url === '/oauth/token') {
+      return tokenResponses.shift() || { status: 500, body: { error: 'unexpected_request' } };
+    }
+    return { status: 404 };
+  });
+
+  process.env.YOTO_AUTH_URL = server.url;
+  process.env.YOTO_CREDENTIALS_FILE = path.join(temp.dir, 'credentials.json');
+  auth = await import('../src/auth');
+});
+
+after(async () => {
+  await server.close();
+  temp.cleanup();
+});
+
+beforeEach(() => {
+  server.requests.length = 0;
+  tokenResponses = [];
+  fs.rmSync(process.env.YOTO_CREDENTIALS_FILE!, { force: true });
+});
+
+function tokenRequests() {
+  return server.requests.filter(request => request.url === '/oauth/token').map(formOf);
+}
+
+describe('device-code login', () => {
+  it('starts device authorization with the client ID', async () => {
+    const device = await auth.startDeviceAuthorization('client-1');
+
+    assert.equal(device.deviceCode, 'device-1');
+    assert.equal(device.userCode, 'ABCD-EFGH');
+    assert.equal(device.verificationUri, 'https://example.test/activate');
+    assert.equal(formOf(server.requests[0]).get('client_id'), 'client-1');
+  });
+
+  it('polls through authorization_pending and slow_down until the token is issued', async () => {
+    tokenResponses = [
+      { status: 400, body: { error: 'authorization_pending' } },
+      { status: 400, body: { error: 'slow_down' } },
+      { status: 400, body: { error: 'authorization_pending' } },
+      { body: { access_token: 'access-1', refresh_token: 'refresh-1', expires_in: 3600 } }
+    ];
+
+    const started = Date.now();
+    const credentials = await auth.pollForToken('client-1', 'device-1', 0, 60);
+
+    assert.equal(credentials.accessToken, 'access-1');
+    assert.equal(credentials.refreshToken, 'refresh-1');
+    assert.equal(credentials.clientId, 'client-1');
+    assert.equal(tokenRequests().length, 4);
+    assert.ok(tokenRequests().every(form => form.get('device_code') === 'device-1'));
+    // slow_down adds 5 seconds to the polling interval
+    assert.ok(Date.now() - started >= 5000, 'slow_down should back off');
+  });
+
+  it('stops when the login is denied', async () => {
+    tokenResponses = [{ status: 400, body: { error: 'access_denied' } }];
+
+    await assert.rejects(auth.pollForToken('client-1', 'device-1', 0, 60), auth.YotoLoginError);
+  });
+
+  it('gives up when the code expires', async () => {
+    tokenResponses = [{ status: 400, body: { error: 'expired_token' } }];
+
+    await assert.rejects(auth.pollForToken('client-1', 'device-1', 0, 60), /expired/);
+  });
+});
+
+describe('token refresh', () => {
+  function storeCredentials(expiresInMs: number) {
+    auth.saveCredentials({
+      clientId: 'client-1',
+      accessToken: 'old-access',
+      refreshToken: 'refresh-1',
+      expiresAt: new Date(Date.now() + expiresInMs).toISOString()
+    });
+  }
+
+  it('uses the stored token while it is valid', async () => {
+    storeCredentials(3600 * 1000);
+
+    assert.equal(await auth.resolveBearer(), 'old-access');
+    assert.equal(tokenRequests().length, 0);
+  });
+
+  it('refreshes a token about to expire and keeps the refresh token when it is not rotated', async () => {
+    storeCredentials(1000);
+    tokenResponses = [{ body: { access_token: 'new-access', expires_in: 3600 } }];
+
+    assert.equal(await auth.resolveBearer(), 'new-access');
+    assert.equal(tokenRequests()[0].get('grant_type'), 'refresh_token');
+    assert.equal(tokenRequests()[0].get('refresh_token'), 'refresh-1');
+
+    const saved = auth.loadCredentials()!;
+    assert.equal(saved.accessToken, 'new-access');
+    assert.equal(saved.refreshToken, 'refresh-1');
+    assert.equal(auth.currentBearer('old-access'), 'new-access');
+  });
+
+  it('refreshes a stored token rejected with a 401, but not an explicit --bearer', async () => {
+    storeCredentials(3600 * 1000);
+    tokenResponses = [{ body: { access_token: 'after-401', refresh_token: 'refresh-2', expires_in: 3600 } }];
+
+    assert.equal(await auth.refreshBearer('some-other-token'), null);
+    assert.equal(await auth.refreshBearer('old-access'), 'after-401');
+    assert.equal(auth.loadCredentials()!.refreshToken, 'refresh-2');
+  });
+
+  it('an explicit bearer wins over the stored login', async () => {
+    storeCredentials(1000);
+
+    assert.equal(await auth.resolveBearer('explicit'), 'explicit');
+    assert.equal(tokenRequests().length, 0);
+  });
+});
@@ -0,0 +1,121 @@
+import { after, before, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { buildGalleryHtml, importDecisions } from '../src/gallery';
+import { GeneratedIconEntry, GeneratedIconsManifest, ReviewDecisionsFile } from '../src/types';
+
+const log = console.log;
+before(() => {
+  console.log = () => {}; // Ignored-decision notices
+});
+after(() => {
+  console.log = log;
+});
+
+function entry(overrides: Partial<GeneratedIconEntry> = {}): GeneratedIconEntry {
+  return {
+    keyword: 'moon',
+    language: 'english',
+    style: 'yoto',
+    prompt: 'A crescent moon',
+    model: 'test-model',
+    generatedAt: '2026-01-01T10:00:00.000Z',
+    variants: [
+      { raw: 'generated_moon_v1.png', icon: 'generated_moon_v1_16x16.png' },
+      { raw: 'generated_moon_v2.png', icon: null }
+    ],
+    decision: 'pending',
+    ...overrides
+  };
+}
+
+function manifest(...icons: GeneratedIconEntry[]): GeneratedIconsManifest {
+  return { version: 1, icons };
+}
+
+function decisions(...list: ReviewDecisionsFile['decisions']): ReviewDecisionsFile {
+  return { version: 1, decisions: list };
+}
+
+describe('buildGalleryHtml', () => {
+  it('shows each variant raw and as a cache-busted 16x16 icon', () => {
+    const html = buildGalleryHtml(manifest(entry()));
+
+    assert.match(html, /<img class="raw" src="generated_moon_v1\.png\?v=2026-01-01T10%3A00%3A00\.000Z"/);
+    assert.match(html, /<img class="icon" src="generated_moon_v1_16x16\.png\?v=/);
+    assert.match(html, /no 16x16/);
+    assert.match(html, /value="v1" disabled> Approve #2/, 'a variant without an icon cannot be approved');
+  });
+
+  it('checks the current decision and locks uploaded keywords', () => {
+    const approved = buildGalleryHtml(manifest(entry({ decision: 'approved', approvedVariant: 0 })));
+    assert.match(approved, /value="v0" checked> Approve #1/);
+
+    const uploaded = buildGalleryHtml(manifest(entry({ decision: 'approved', approvedVariant: 0, uploadedIconId: 'yoto:#m1' })));
+    assert.match(uploaded, /uploaded as yoto:#m1/);
+    assert.doesNotMatch(uploaded, /type="radio"[^>]*value="[^"]*"( checked)?>/, 'every choice is disabled');
+  });
+
+  it('escapes keywords and prompts in the page and in its script state', () => {
+    const html = buildGalleryHtml(manifest(entry({ keyword: '<b>moon</b>', prompt: 'Say "hi" & </script><script>alert(1)' })));
+
+    assert.match(html, /&lt;b&gt;moon&lt;\/b&gt;/);
+    assert.match(html, /Say &quot;hi&quot; &amp; &lt;\/script&gt;/);
+    assert.equal(html.split('</script>').length - 1, 2, 'only the page\'s own two script blocks close');
+    assert.match(html, /"keyword":"\\u003cb>moon\\u003c\/b>"/);
+  });
+
+  it('says so when nothing was generated', () => {
+    assert.match(buildGalleryHtml(manifest()), /Nothing generated yet/);
+  });
+});
+
+describe('importDecisions', () => {
+  it('takes in newer decisions, keeping the variant only for approvals', () => {
+    const data = manifest(entry(), entry({ keyword: 'sun', decision: 'approved', approvedVariant: 0, decidedAt: '2026-01-02T00:00:00.000Z' }));
+
+    const applied = importDecisions(data, decisions(
+      { keyword: 'moon', language: 'english', decision: 'approved', approvedVariant: 0, decidedAt: '2026-01-03T00:00:00.000Z' },
+      { keyword: 'sun', language: 'english', decision: 'regenerate', approvedVariant: 0, decidedAt: '2026-01-03T00:00:00.000Z' }
+    ));
+
+    assert.equal(applied, 2);
+    assert.deepEqual([data.icons[0].decision, data.icons[0].approvedVariant], ['approved', 0]);
+    assert.deepEqual([data.icons[1].decision, data.icons[1].approvedVariant], ['regenerate', undefined]);
+    assert.equal(data.icons[1].decidedAt, '2026-01-03T00:00:00.000Z');
+  });
+
+  it('never lets an older download undo a later review or a regeneration', () => {
+    const data = manifest(
+      entry({ decision: 'rejected', decidedAt: '2026-01-05T00:00:00.000Z' }),
+      entry({ keyword: 'sun', generatedAt: '2026-01-05T00:00:00.000Z' })
+    );
+
+    const applied = importDecisions(data, decisions(
+      { keyword: 'moon', language: 'english', decision: 'approved', approvedVariant: 0, decidedAt: '2026-01-05T00:00:00.000Z' },
+      { keyword: 'sun', language: 'english', decision: 'approved', approvedVariant: 0, decidedAt: '2026-01-04T00:00:00.000Z' }
+    ));
+
+    assert.equal(applied, 0);
+    assert.equal(data.icons[0].decision, 'rejected');
+    assert.equal(data.icons[1].decision, 'pending');
+  });
+
+  it('ignores uploaded keywords, unusable approvals and unknown entries', () => {
+    const data = manifest(entry({ decision: 'approved', approvedVariant: 0, uploadedIconId: 'yoto:#m1' }), entry({ keyword: 'sun' }));
+    const decidedAt = '2026-01-03T00:00:00.000Z';
+
+    const applied = importDecisions(data, decisions(
+      { keyword: 'moon', language: 'english', decision: 'rejected', decidedAt },
+      { keyword: 'sun', language: 'english', decision: 'approved', approvedVariant: 1, decidedAt },
+      { keyword: 'sun', language: 'english', decision: 'approved', decidedAt },
+      { keyword: 'sun', language: 'english', decision: 'maybe' as any, decidedAt },
+      { keyword: 'sun', language: 'hebrew', decision: 'rejected', decidedAt },
+      { keyword: 'star', language: 'english', decision: 'rejected', decidedAt },
+      { keyword: 'sun', language: 'english', decision: 'rejected' }
+    ));
+
+    assert.equal(applied, 0);
+    assert.equal(data.icons[0].decision, 'approved');
+    assert.equal(data.icons[1].decision, 'pending');
+  });
+});
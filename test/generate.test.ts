@@ -0,0 +1,168 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { encodePng } from '../src/png';
+import { discImage, MockServer, runScript, startMockServer, useFixtureWorkspace } from './helpers';
+
+const UPLOAD_PATH = '/media/displayIcons/user/me/upload';
+
+let server: MockServer;
+let uploadResponse: { status?: number; body?: unknown };
+const workspace = useFixtureWorkspace();
+
+before(async () => {
+  server = await startMockServer(request => {
+    if (request.url.startsWith(UPLOAD_PATH)) return uploadResponse;
+    return { status: 404 };
+  });
+  process.env.YOTO_API_URL = server.url;
+});
+
+after(async () => {
+  await server.close();
+  workspace.cleanup();
+});
+
+beforeEach(() => {
+  server.requests.length = 0;
+  uploadResponse = { body: { displayIcon: { mediaId: 'media-1' } } };
+  fs.rmSync(path.join(workspace.dir, 'data', 'yoto_icon_ids_english.json'), { force: true });
+});
+
+// Runs `npm run generate -- --process` on a raw "moon.png" in the fixture workspace
+async function processAndUpload(...flags: string[]): Promise<{ stdout: string; image: string }> {
+  const dir = fs.mkdtempSync(path.join(workspace.dir, 'images-'));
+  const image = path.join(dir, 'moon.png');
+  fs.writeFileSync(image, encodePng(discImage()));
+
+  const { stdout } = await runScript('generate.ts', ['--process', image, '--upload', '--language', 'english', ...flags], { cwd: workspace.dir });
+  return { stdout, image };
+}
+
+function savedMappings(): any {
+  const file = path.join(workspace.dir, 'data', 'yoto_icon_ids_english.json');
+  return fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, 'utf-8')) : null;
+}
+
+describe('generate --process --upload', () => {
+  it('uploads the 16x16 icon and maps the keyword to it', async () => {
+    const { image } = await processAndUpload('--bearer', 'token-1');
+
+    assert.equal(server.requests.length, 1);
+    const upload = server.requests[0];
+    assert.equal(upload.method, 'POST');
+    assert.equal(upload.headers.authorization, 'Bearer token-1');
+    assert.equal(upload.headers['content-type'], 'image/png');
+    const query = new URL(upload.url, server.url).searchParams;
+    assert.equal(query.get('filename'), 'moon_16x16.png');
+    assert.ok(upload.body.equals(fs.readFileSync(image.replace(/\.png$/, '_16x16.png'))));
+
+    const [candidate] = savedMappings().keywords.moon;
+    assert.equal(candidate.iconId, 'yoto:#media-1');
+    assert.equal(candidate.provenance, 'generated');
+  });
+
+  it('uploads nothing with --dry, and needs no login', async () => {
+    const { stdout } = await processAndUpload('--dry');
+
+    assert.equal(server.requests.length, 0);
+    assert.match(stdout, /Would upload and map to "moon"/);
+    assert.equal(savedMappings(), null);
+  });
+
+  it('maps nothing when the upload response has no media ID', async () => {
+    uploadResponse = { body: { displayIcon: {} } };
+
+    await assert.rejects(processAndUpload('--bearer', 'token-1'), (error: any) => {
+      assert.match(error.stderr, /no media ID/);
+      return true;
+    });
+    assert.equal(server.requests.length, 1);
+    assert.equal(savedMappings(), null);
+  });
+});
+
+describe('generate --upload', () => {
+  const generatedDir = path.join(workspace.dir, 'generated-icons');
+  const generatedAt = '2026-01-01T10:00:00.000Z';
+
+  function variantEntry(keyword: string, overrides: object = {}): object {
+    return {
+      keyword,
+      language: 'english',
+      style: 'yoto',
+      prompt: `A ${keyword}`,
+      model: 'test-model',
+      generatedAt,
+      variants: [{ raw: `generated_${keyword}_v1.png`, icon: `generated_${keyword}_v1_16x16.png` }],
+      decision: 'pending',
+      ...overrides
+    };
+  }
+
+  // A manifest of reviewed keywords, with the 16x16 icon of each on disk
+  function writeGenerated(icons: any[], decisions?: object[]): void {
+    fs.rmSync(generatedDir, { recursive: true, force: true });
+    fs.mkdirSync(generatedDir);
+    for (const icon of icons) {
+      fs.writeFileSync(path.join(generatedDir, icon.variants[0].icon), encodePng(discImage(16)));
+    }
+    fs.writeFileSync(path.join(generatedDir, 'manifest.json'), JSON.stringify({ version: 1, icons }));
+    if (decisions) {
+      fs.writeFileSync(path.join(generatedDir, 'decisions.json'), JSON.stringify({ version: 1, decisions }));
+    }
+  }
+
+  function savedManifest(): any {
+    return JSON.parse(fs.readFileSync(path.join(generatedDir, 'manifest.json'), 'utf-8'));
+  }
+
+  it('uploads approved variants, including ones approved in the gallery download, once', async () => {
+    writeGenerated(
+      [variantEntry('moon', { decision: 'approved', approvedVariant: 0, decidedAt: generatedAt }), variantEntry('sun'), variantEntry('star')],
+      [{ keyword: 'sun', language: 'english', decision: 'approved', approvedVariant: 0, decidedAt: '2026-01-02T00:00:00.000Z' }]
+    );
+
+    const { stdout } = await runScript('generate.ts', ['--upload', '--language', 'english', '--bearer', 'token-1'], { cwd: workspace.dir });
+
+    assert.match(stdout, /1 review decisions taken/);
+    assert.match(stdout, /Uploaded 2\/2 icons/);
+    const filenames = server.requests.map(request => new URL(request.url, server.url).searchParams.get('filename'));
+    assert.deepEqual(filenames, ['generated_moon_v1_16x16.png', 'generated_sun_v1_16x16.png']);
+    const icons = savedManifest().icons;
+    assert.deepEqual(icons.map((entry: any) => entry.uploadedIconId), ['yoto:#media-1', 'yoto:#media-1', undefined]);
+    assert.deepEqual(Object.keys(savedMappings().keywords).sort(), ['moon', 'sun']);
+    assert.ok(fs.existsSync(path.join(generatedDir, 'gallery.html')));
+
+    server.requests.length = 0;
+    const rerun = await runScript('generate.ts', ['--upload', '--language', 'english', '--bearer', 'token-1'], { cwd: workspace.dir });
+    assert.match(rerun.stdout, /No approved icons waiting for upload/);
+    assert.equal(server.requests.length, 0);
+  });
+
+  it('lists what it would upload with --dry', async () => {
+    writeGenerated([variantEntry('moon', { decision: 'approved', approvedVariant: 0, decidedAt: generatedAt })]);
+
+    const { stdout } = await runScript('generate.ts', ['--upload', '--language', 'english', '--dry'], { cwd: workspace.dir });
+
+    assert.match(stdout, /"moon" - variant #1/);
+    assert.match(stdout, /Would upload 1 icons/);
+    assert.equal(server.requests.length, 0);
+    assert.equal(savedManifest().icons[0].uploadedIconId, undefined);
+  });
+
+  it('fails, leaving the keyword to upload on the next run, when an upload fails', async () => {
+    uploadResponse = { status: 500, body: 'Internal Server Error' };
+    writeGenerated([variantEntry('moon', { decision: 'approved', approvedVariant: 0, decidedAt: generatedAt })]);
+
+    await assert.rejects(runScript('generate.ts', ['--upload', '--language', 'english', '--bearer', 'token-1'], { cwd: workspace.dir }),
+      (error: any) => {
+        assert.match(error.stdout, /Uploaded 0\/1 icons/);
+        return true;
+      });
+    assert.equal(server.requests.length, 1);
+    assert.equal(savedManifest().icons[0].uploadedIconId, undefined);
+    assert.equal(savedMappings(), null);
+  });
+});
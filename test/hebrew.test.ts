@@ -0,0 +1,94 @@
+import { after, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { useFixtureWorkspace } from './helpers';
+import { createNormalizer, matchIcon, resolveKeyword } from '../src/matchIcon';
+
+const workspace = useFixtureWorkspace({ 'yoto_icon_ids_hebrew.json': { version: 2, keywords: {} } });
+after(() => workspace.cleanup());
+
+// Real track titles from Hebrew playlists and the keyword each should match (null = no match)
+const CORPUS: Array<[string, string | null]> = [
+  ['הַכֶּלֶב שֶׁל סַבְתָּא', 'כלב'],
+  ['לכלבים', 'כלב'],
+  ['מהחווה', 'חווה'],
+  ['כשהשמש זורחת', 'שמש'],
+  ['שירים לילדים', 'שיר'],
+  ['הצפרדעים', 'צפרדע'],
+  ['בובות ומכוניות', 'מכונית'],
+  ['הציפורים', 'ציפור'],
+  ['צפור קטנה', 'ציפור'],
+  ['שימש', null],
+  ['עפרונות צבעוניים', 'עיפרון'],
+  ['הפרפר והפרח', 'פרפר'],
+  ['תנינים בנהר', 'תנין'],
+  ['האריה המלך', 'אריה'],
+  ['ולדוב', 'דוב'],
+  ['מלכת השלג', 'שלג'],
+  ['ספרו של דני', 'ספר'],
+  ['בְּרֵאשִׁ֖ית', null],
+  ['לַיְלָה טוֹב', null],
+  ['הַדְּבוֹרָה', 'דבורה'],
+  ['פילים בספארי', 'פיל'],
+  ['שבתאי', 'שבתאי'],
+  ['אוטובוסים', 'אוטובוס'],
+  ['ברכבת', 'רכבת'],
+  ['למטוס', 'מטוס'],
+  ['הדגים', 'דג'],
+  ['וּבַבַּיִת', 'בית']
+];
+
+describe('Hebrew track title corpus', () => {
+  for (const [title, keyword] of CORPUS) {
+    it(`${title} → ${keyword ?? 'no match'}`, () => {
+      assert.equal(matchIcon(title, 'hebrew').keyword, keyword);
+    });
+  }
+
+  it('still matches the night when a greeting is not all the title says', () => {
+    assert.equal(matchIcon('לילה טוב ירח', 'hebrew').keyword, 'ירח');
+    assert.equal(matchIcon('לילה', 'hebrew').keyword, 'ירח');
+  });
+
+  it('still matches an owner when nothing else in the title does', () => {
+    assert.equal(matchIcon('השיר של סבתא', 'hebrew').keyword, 'סבתא');
+  });
+});
+
+describe('Hebrew normalizer', () => {
+  const normalizer = createNormalizer('hebrew');
+
+  it('strips niqqud and cantillation, and splits on maqaf', () => {
+    assert.equal(normalizer.normalize('בְּרֵאשִׁ֖ית'), 'בראשית');
+    assert.equal(normalizer.normalize('בֵּית־סֵפֶר'), 'בית ספר');
+  });
+
+  it('fixes final letters', () => {
+    assert.ok(normalizer.wordVariants('עפרונ').close.includes('עפרון'));
+  });
+
+  it('folds plural and possessive endings', () => {
+    const { loose } = normalizer.wordVariants('מכוניות');
+    assert.ok(loose.includes('מכונית'));
+    assert.ok(normalizer.wordVariants('ביתנו').loose.includes('בית'));
+  });
+
+  it('folds full spelling to defective one vowel letter at a time', () => {
+    assert.ok(normalizer.wordVariants('ציפור').loose.includes('צפור'));
+    assert.ok(!normalizer.wordVariants('ציפור').loose.includes('צפר'), 'only one vowel letter goes');
+  });
+
+  it('never folds down to a three-letter root', () => {
+    const variants = normalizer.wordVariants('שימש');
+    assert.ok(![...variants.close, ...variants.loose].includes('שמש'));
+    assert.ok(!normalizer.wordVariants('שימוש').loose.includes('שמש'));
+  });
+});
+
+describe('Hebrew Vision labels', () => {
+  it('resolves inflected labels to their keyword', () => {
+    assert.equal(resolveKeyword('הכלבים', 'hebrew'), 'כלב');
+    assert.equal(resolveKeyword('ציפורים', 'hebrew'), 'ציפור');
+    assert.equal(resolveKeyword('עפרונות', 'hebrew'), 'עיפרון');
+    assert.equal(resolveKeyword('השמש', 'hebrew'), 'שמש');
+  });
+});
@@ -0,0 +1,138 @@
+import { execFile } from 'child_process';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { promisify } from 'util';
+import { RgbaImage } from '../src/png';
+
+export interface MockRequest {
+  method: string;
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: Buffer;
+}
+
+export interface MockResponse {
+  status?: number;
+  body?: unknown; // Objects are sent as JSON, strings and Buffers as they are
+  headers?: { [name: string]: string };
+  reset?: boolean; // Drop the connection instead of answering
+}
+
+export interface MockServer {
+  url: string;
+  requests: MockRequest[];
+  close(): Promise<void>;
+}
+
+/**
+ * A local HTTP server for the Yoto and OAuth endpoints. Every request is
+ * recorded and answered by the handler.
+ */
+export async function startMockServer(handler: (request: MockRequest) => MockResponse): Promise<MockServer> {
+  const requests: MockRequest[] = [];
+
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      const request = { method: req.method || 'GET', url: req.url || '/', headers: req.headers, body: Buffer.concat(chunks) };
+      requests.push(request);
+
+      const { status = 200, body = {}, headers = {}, reset } = handler(request);
+      if (reset) {
+        req.socket.destroy();
+        return;
+      }
+      const raw = typeof body === 'string' || Buffer.isBuffer(body);
+      res.writeHead(status, { 'Content-Type': raw ? 'text/plain' : 'application/json', ...headers });
+      res.end(raw ? body : JSON.stringify(body));
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as { port: number };
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise(resolve => server.close(() => resolve()))
+  };
+}
+
+// Fresh directory under the OS temp dir, removed by the returned cleanup
+export function makeTempDir(): { dir: string; cleanup(): void } {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'yoto-auto-icons-'));
+  return { dir, cleanup: () => fs.rmSync(dir, { recursive: true, force: true }) };
+}
+
+const REPO_ROOT = path.resolve(__dirname, '..');
+
+/**
+ * Switches the working directory to a temp copy of the repo layout: the
+ * tracked languages/, synonyms/ and prompts/ are linked in, and data/ holds
+ * only the given files, so tests never read or write real mappings.
+ */
+export function useFixtureWorkspace(data: { [file: string]: unknown } = {}): { dir: string; cleanup(): void } {
+  const temp = makeTempDir();
+  for (const entry of ['languages', 'synonyms', 'prompts', 'icon_ids.txt']) {
+    fs.symlinkSync(path.join(REPO_ROOT, entry), path.join(temp.dir, entry));
+  }
+  fs.mkdirSync(path.join(temp.dir, 'data'));
+  for (const [file, content] of Object.entries(data)) {
+    fs.writeFileSync(path.join(temp.dir, 'data', file), JSON.stringify(content, null, 2));
+  }
+
+  const previous = process.cwd();
+  process.chdir(temp.dir);
+  return {
+    dir: temp.dir,
+    cleanup: () => {
+      process.chdir(previous);
+      temp.cleanup();
+    }
+  };
+}
+
+/**
+ * Runs one of the src/ command-line scripts in its own process, the way
+ * `npm run <script>` would, from the given directory. Rejects on a
+ * non-zero exit, with the output on the error.
+ */
+export async function runScript(
+  script: string,
+  args: string[],
+  options: { cwd: string; env?: NodeJS.ProcessEnv }
+): Promise<{ stdout: string; stderr: string }> {
+  return promisify(execFile)(
+    process.execPath,
+    ['--require', require.resolve('ts-node/register'), path.join(REPO_ROOT, 'src', script), ...args],
+    {
+      cwd: options.cwd,
+      env: { ...(options.env || process.env), TS_NODE_PROJECT: path.join(REPO_ROOT, 'tsconfig.json'), TS_NODE_TRANSPILE_ONLY: 'true' },
+      timeout: 120000
+    }
+  );
+}
+
+// Form fields of an application/x-www-form-urlencoded request
+export function formOf(request: MockRequest): URLSearchParams {
+  return new URLSearchParams(request.body.toString('utf-8'));
+}
+
+// A generated-looking image: a disc shaded from red to blue on a flat white background
+export function discImage(size = 128): RgbaImage {
+  const image: RgbaImage = { width: size, height: size, data: Buffer.alloc(size * size * 4, 255) };
+  const centre = size / 2;
+  const radius = size * 0.4;
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      if ((x + 0.5 - centre) ** 2 + (y + 0.5 - centre) ** 2 > radius ** 2) continue;
+      const t = x / (size - 1);
+      image.data.set([Math.round(230 * (1 - t)), 40, Math.round(230 * t), 255], (y * size + x) * 4);
+    }
+  }
+  return image;
+}
@@ -0,0 +1,85 @@
+import { after, before, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import { useFixtureWorkspace } from './helpers';
+import { getMatcher, IconMatcher, matchIcon, reloadMappings } from '../src/matchIcon';
+import { Language } from '../src/types';
+
+const workspace = useFixtureWorkspace({
+  'yoto_icon_ids_hebrew.json': {
+    version: 2,
+    keywords: {
+      'כלב': [{ iconId: 'yoto:#he-dog', label: 'כלב' }],
+      'רכבת': [{ iconId: 'yoto:#he-train', label: 'רכבת' }]
+    }
+  },
+  'yoto_icon_ids_english.json': {
+    version: 2,
+    keywords: {
+      moon: [{ iconId: 'yoto:#en-moon', label: 'moon' }],
+      train: [{ iconId: 'yoto:#en-train', label: 'train' }]
+    }
+  }
+});
+
+after(() => workspace.cleanup());
+
+// One card, tracks in both languages, in the order a card would list them
+const MIXED_CARD: Array<{ title: string; language: Language; keyword: string; iconId: string }> = [
+  { title: 'כלבים', language: 'hebrew', keyword: 'כלב', iconId: 'yoto:#he-dog' },
+  { title: 'Goodnight Moon', language: 'english', keyword: 'moon', iconId: 'yoto:#en-moon' },
+  { title: 'רכבת קטנה', language: 'hebrew', keyword: 'רכבת', iconId: 'yoto:#he-train' },
+  { title: 'The Little Train', language: 'english', keyword: 'train', iconId: 'yoto:#en-train' }
+];
+
+describe('mixed Hebrew and English card', () => {
+  before(() => reloadMappings());
+
+  it('matches each track against its own language', () => {
+    for (const track of MIXED_CARD) {
+      const match = matchIcon(track.title, track.language);
+      assert.equal(match.keyword, track.keyword, track.title);
+      assert.equal(match.iconId, track.iconId, track.title);
+    }
+  });
+
+  it('gives the same answers in reverse order, whichever language loads first', () => {
+    reloadMappings();
+    for (const track of [...MIXED_CARD].reverse()) {
+      assert.equal(matchIcon(track.title, track.language).iconId, track.iconId, track.title);
+    }
+  });
+
+  it('keeps each language on its own mapping file', () => {
+    // English synonyms list Hebrew words too, so the English matcher places this title - but with the English icon
+    assert.equal(matchIcon('רכבת קטנה', 'english').iconId, 'yoto:#en-train');
+    assert.equal(getMatcher('hebrew').getStats().mappedKeywords, 2);
+    assert.equal(getMatcher('english').getStats().mappedKeywords, 2);
+  });
+});
+
+describe('IconMatcher', () => {
+  it('keeps separate instances per language', () => {
+    assert.equal(getMatcher('hebrew'), getMatcher('hebrew'));
+    assert.notEqual(getMatcher('hebrew'), getMatcher('english'));
+    assert.equal(getMatcher('hebrew').language, 'hebrew');
+  });
+
+  it('reloads one language without touching the other', () => {
+    const hebrew = new IconMatcher('hebrew');
+    const english = new IconMatcher('english');
+    assert.equal(hebrew.match('כלבים').iconId, 'yoto:#he-dog');
+    assert.equal(english.match('Goodnight Moon').iconId, 'yoto:#en-moon');
+
+    fs.writeFileSync('data/yoto_icon_ids_hebrew.json', JSON.stringify({
+      version: 2,
+      keywords: { 'כלב': [{ iconId: 'yoto:#he-dog-2', label: 'כלב' }] }
+    }));
+    assert.equal(hebrew.match('כלבים').iconId, 'yoto:#he-dog', 'cached until reload');
+
+    hebrew.reload();
+    assert.equal(hebrew.match('כלבים').iconId, 'yoto:#he-dog-2');
+    assert.equal(hebrew.match('רכבת').iconId, null);
+    assert.equal(english.match('The Little Train').iconId, 'yoto:#en-train');
+  });
+});
@@ -0,0 +1,59 @@
+import { after, afterEach, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import { useFixtureWorkspace } from './helpers';
+import { loadOverrides } from '../src/overrides';
+
+const workspace = useFixtureWorkspace();
+after(() => workspace.cleanup());
+
+afterEach(() => fs.rmSync('overrides.json', { force: true }));
+
+function writeOverrides(content: unknown): void {
+  fs.writeFileSync('overrides.json', typeof content === 'string' ? content : JSON.stringify(content));
+}
+
+describe('loadOverrides', () => {
+  it('returns an empty list without a file', () => {
+    assert.deepEqual(loadOverrides().overrides, []);
+  });
+
+  it('reads valid entries, with keywords from any language', () => {
+    const overrides = [
+      { title: 'Goodnight Moon', keyword: 'moon' },
+      { pattern: '^פרק \\d+$', skip: true },
+      { title: 'Bedtime', card: 'c1', iconId: 'yoto:#abc' }
+    ];
+    writeOverrides({ version: 1, overrides });
+
+    assert.deepEqual(loadOverrides().overrides, overrides);
+  });
+
+  it('rejects a file without an "overrides" list, naming the file', () => {
+    writeOverrides({ version: 1 });
+    assert.throws(() => loadOverrides(), /^Error: overrides\.json: "overrides" must be a list/);
+
+    writeOverrides({ version: 1, overrides: { title: 'Moon', keyword: 'moon' } });
+    assert.throws(() => loadOverrides(), /overrides\.json: "overrides" must be a list/);
+
+    writeOverrides('{ "overrides": [');
+    assert.throws(() => loadOverrides(), /overrides\.json: not valid JSON/);
+  });
+
+  it('rejects an unusable entry, naming its position', () => {
+    const invalid: Array<[unknown, RegExp]> = [
+      ['moon', /entry 2: must be an object/],
+      [{ title: 'Moon', keyword: 'mooon' }, /entry 2: unknown keyword "mooon"/],
+      [{ pattern: '(', skip: true }, /entry 2: invalid pattern \(/],
+      [{ title: 'Moon', keyword: 'moon', skip: true }, /entry 2: needs exactly one of/],
+      [{ keyword: 'moon' }, /entry 2: needs "title" or "pattern"/],
+      [{ title: 'Moon', skip: 'yes' }, /entry 2: "skip" must be true or false/],
+      [{ title: 42, keyword: 'moon' }, /entry 2: "title" must be a string/]
+    ];
+
+    for (const [entry, message] of invalid) {
+      writeOverrides({ version: 1, overrides: [{ title: 'Goodnight Moon', keyword: 'moon' }, entry] });
+      assert.throws(() => loadOverrides(), message);
+    }
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { DEFAULT_PIXEL_ART_OPTIONS, toPixelArt } from '../src/pixelArt';
+import { decodePng, encodePng, RgbaImage } from '../src/png';
+import { discImage } from './helpers';
+
+// Round-tripped through PNG, as generated images arrive
+function syntheticImage(): RgbaImage {
+  return decodePng(encodePng(discImage()));
+}
+
+// A 400×400 disc with a black line of the given thickness across the whole image above it
+function discWithLine(thickness: number): RgbaImage {
+  const image = discImage(400);
+  for (let y = 20; y < 20 + thickness; y++) {
+    for (let x = 0; x < image.width; x++) image.data.set([0, 0, 0, 255], (y * image.width + x) * 4);
+  }
+  return image;
+}
+
+function opaqueInRow(image: RgbaImage, y: number): number {
+  let count = 0;
+  for (let x = 0; x < image.width; x++) if (alphaAt(image, x, y) === 255) count++;
+  return count;
+}
+
+function alphaAt(image: RgbaImage, x: number, y: number): number {
+  return image.data[(y * image.width + x) * 4 + 3];
+}
+
+function opaqueColors(image: RgbaImage): Set<string> {
+  const colors = new Set<string>();
+  for (let i = 0; i < image.width * image.height; i++) {
+    if (image.data[i * 4 + 3] === 255) colors.add(image.data.subarray(i * 4, i * 4 + 3).toString('hex'));
+  }
+  return colors;
+}
+
+describe('toPixelArt', () => {
+  it('makes a 16×16 icon', () => {
+    const icon = toPixelArt(syntheticImage());
+
+    assert.equal(icon.width, 16);
+    assert.equal(icon.height, 16);
+    assert.equal(icon.data.length, 16 * 16 * 4);
+  });
+
+  it('turns the background transparent and keeps the subject opaque', () => {
+    const icon = toPixelArt(syntheticImage());
+
+    for (const [x, y] of [[0, 0], [15, 0], [0, 15], [15, 15]]) {
+      assert.equal(alphaAt(icon, x, y), 0, `corner ${x},${y}`);
+    }
+    assert.equal(alphaAt(icon, 8, 8), 255);
+    // Every pixel is either fully transparent or fully opaque
+    for (let i = 3; i < icon.data.length; i += 4) {
+      assert.ok(icon.data[i] === 0 || icon.data[i] === 255);
+    }
+  });
+
+  it('reduces the colours to the palette size', () => {
+    const colors = opaqueColors(toPixelArt(syntheticImage()));
+    assert.ok(colors.size > 1, 'the gradient keeps more than one colour');
+    assert.ok(colors.size <= DEFAULT_PIXEL_ART_OPTIONS.colors);
+
+    const fourColors = opaqueColors(toPixelArt(syntheticImage(), { ...DEFAULT_PIXEL_ART_OPTIONS, colors: 4 }));
+    assert.ok(fourColors.size <= 4);
+  });
+
+  it('keeps the margin transparent', () => {
+    const icon = toPixelArt(syntheticImage(), { ...DEFAULT_PIXEL_ART_OPTIONS, margin: 2 });
+
+    for (let i = 0; i < 16; i++) {
+      for (const [x, y] of [[i, 0], [i, 1], [0, i], [1, i], [i, 15], [i, 14], [15, i], [14, i]]) {
+        assert.equal(alphaAt(icon, x, y), 0, `margin pixel ${x},${y}`);
+      }
+    }
+  });
+
+  it('gives the same icon for the same input', () => {
+    const first = encodePng(toPixelArt(syntheticImage()));
+    const second = encodePng(toPixelArt(syntheticImage()));
+
+    assert.ok(first.equals(second));
+  });
+
+  it('treats strokes thinner than about 1% of the image as background', () => {
+    // The disc fills the icon only if the line is dropped; a kept line stretches the crop to the full width
+    const full = opaqueInRow(toPixelArt(discImage(400)), 8);
+    assert.equal(opaqueInRow(toPixelArt(discWithLine(3)), 8), full);
+    assert.ok(opaqueInRow(toPixelArt(discWithLine(6)), 8) < full);
+  });
+
+  it('fails on an image that is all background', () => {
+    const blank: RgbaImage = { width: 32, height: 32, data: Buffer.alloc(32 * 32 * 4, 255) };
+    assert.throws(() => toPixelArt(blank), /no subject found/);
+  });
+});
@@ -0,0 +1,138 @@
+import { after, afterEach, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import { useFixtureWorkspace } from './helpers';
+import { matchPlaylistInContext } from '../src/context';
+import { checkPolicy, DEFAULT_POLICY, loadMatchingPolicy, parsePolicyArgs, policyForCard } from '../src/policy';
+import { MatchingPolicy, MatchResult, YotoPlaylist } from '../src/types';
+
+const workspace = useFixtureWorkspace({
+  'yoto_icon_ids_english.json': { version: 2, keywords: { moon: [{ iconId: 'yoto:#en-moon', label: 'moon' }] } }
+});
+after(() => workspace.cleanup());
+
+afterEach(() => fs.rmSync('policy.json', { force: true }));
+
+function writePolicy(policy: unknown): string {
+  fs.writeFileSync('policy.json', JSON.stringify(policy));
+  return 'policy.json';
+}
+
+function policy(overrides: Partial<MatchingPolicy> = {}): MatchingPolicy {
+  return { ...DEFAULT_POLICY, cards: {}, ...overrides };
+}
+
+// parsePolicyArgs reports bad flags and exits; the exit is turned into an exception here
+function parseOrExit(args: { [key: string]: any }): MatchingPolicy {
+  const exit = process.exit;
+  const error = console.error;
+  process.exit = ((code?: number) => {
+    throw new Error(`exit ${code}`);
+  }) as typeof process.exit;
+  console.error = () => {};
+  try {
+    return parsePolicyArgs(args);
+  } finally {
+    process.exit = exit;
+    console.error = error;
+  }
+}
+
+describe('loadMatchingPolicy', () => {
+  it('uses the defaults without a policy file, with the semantic tier off', () => {
+    const loaded = loadMatchingPolicy();
+
+    assert.deepEqual(loaded.tiers, ['exact', 'partial', 'ai']);
+    assert.equal(loaded.overwrite, 'default-only');
+    assert.equal(loaded.source, undefined);
+  });
+
+  it('reads the file over the defaults and checks every card', () => {
+    const loaded = loadMatchingPolicy(writePolicy({ minRelevance: 30, cards: { c1: { tiers: ['exact'], note: 'dropped' } } }));
+
+    assert.equal(loaded.minRelevance, 30);
+    assert.equal(loaded.minScore, DEFAULT_POLICY.minScore);
+    assert.deepEqual(loaded.cards.c1, { tiers: ['exact'] });
+  });
+
+  it('rejects invalid values, naming the file and card', () => {
+    assert.throws(() => loadMatchingPolicy(writePolicy({ tiers: ['exact', 'guess'] })), /policy\.json: "tiers" must be a list of/);
+    assert.throws(() => loadMatchingPolicy(writePolicy({ cards: { c1: { minRelevance: 300 } } })), /policy\.json \(card c1\): "minRelevance"/);
+    assert.throws(() => loadMatchingPolicy(writePolicy({ maxAiCalls: -1 })), /"maxAiCalls" must be a whole number/);
+  });
+
+  it('requires an explicitly named file to exist', () => {
+    assert.throws(() => loadMatchingPolicy('missing.json'), /ENOENT/);
+  });
+});
+
+describe('parsePolicyArgs', () => {
+  it('lets flags win over the file, and card overrides over both', () => {
+    const file = writePolicy({ minRelevance: 30, cards: { c1: { minRelevance: 80 } } });
+    const parsed = parseOrExit({ policy: file, 'min-relevance': '50', tiers: 'exact,partial' });
+
+    assert.equal(parsed.minRelevance, 50);
+    assert.deepEqual(parsed.tiers, ['exact', 'partial']);
+    assert.equal(policyForCard(parsed, 'c1').minRelevance, 80);
+    assert.equal(policyForCard(parsed, 'c2').minRelevance, 50);
+  });
+
+  it('turns the semantic tier on only when asked', () => {
+    assert.ok(!parseOrExit({}).tiers.includes('semantic'));
+    assert.ok(parseOrExit({ semantic: true }).tiers.includes('semantic'));
+    assert.ok(!parseOrExit({ policy: writePolicy({ tiers: ['exact', 'semantic'] }), semantic: false }).tiers.includes('semantic'));
+  });
+
+  it('makes --fill-blanks hold on every card, unlike --overwrite', () => {
+    const file = writePolicy({ overwrite: 'all', cards: { c1: { overwrite: 'all', minScore: 1 } } });
+
+    assert.equal(policyForCard(parseOrExit({ policy: file, overwrite: 'default-only' }), 'c1').overwrite, 'all');
+
+    const filled = parseOrExit({ policy: file, 'fill-blanks': true });
+    assert.equal(filled.overwrite, 'default-only');
+    assert.equal(policyForCard(filled, 'c1').overwrite, 'default-only');
+    assert.equal(policyForCard(filled, 'c1').minScore, 1);
+  });
+
+  it('rejects --fill-blanks together with --overwrite, and invalid flags', () => {
+    assert.throws(() => parseOrExit({ 'fill-blanks': true, overwrite: 'all' }), /exit 1/);
+    assert.throws(() => parseOrExit({ overwrite: 'sometimes' }), /exit 1/);
+    assert.throws(() => parseOrExit({ 'max-ai-calls': 'lots' }), /exit 1/);
+  });
+});
+
+describe('checkPolicy', () => {
+  const match = (overrides: Partial<MatchResult>) => ({ confidence: 'partial' as const, score: 2, relevance: 60, ...overrides });
+
+  it('holds back tiers the policy leaves out, but never overrides', () => {
+    assert.deepEqual(checkPolicy(match({ confidence: 'ai' }), policy({ tiers: ['exact'] })), { allowed: false, reason: 'ai matches not allowed' });
+    assert.deepEqual(checkPolicy(match({ confidence: 'override' }), policy({ tiers: [] })), { allowed: true });
+    assert.equal(checkPolicy(match({ confidence: 'none' }), policy()).allowed, false);
+  });
+
+  it('applies the relevance and score floors to exact and partial matches', () => {
+    assert.equal(checkPolicy(match({}), policy({ minRelevance: 50 })).allowed, true);
+    assert.match(checkPolicy(match({}), policy({ minRelevance: 70 })).reason!, /relevance 60\.0% < 70%/);
+    assert.match(checkPolicy(match({ confidence: 'exact' }), policy({ minScore: 3 })).reason!, /score 2\.00 < 3/);
+  });
+
+  it('holds keywords inherited in context mode to the score of the title they came from', () => {
+    const playlist: YotoPlaylist = {
+      id: 'c1',
+      title: 'Bedtime',
+      tracks: [
+        { id: 't1', title: 'Part 1', chapterKey: 'ch1', chapterTitle: 'Goodnight Moon' },
+        { id: 't2', title: 'Part 2', chapterKey: 'ch1', chapterTitle: 'Goodnight Moon' }
+      ]
+    };
+
+    const [inherited] = matchPlaylistInContext(playlist, 'english');
+
+    assert.equal(inherited.keyword, 'moon');
+    assert.equal(inherited.source, 'chapter');
+    assert.ok(inherited.relevance! > 0 && inherited.relevance! < 100);
+    assert.equal(checkPolicy(inherited, policy()).allowed, true);
+    assert.equal(checkPolicy(inherited, policy({ minRelevance: inherited.relevance! + 1 })).allowed, false);
+    assert.equal(checkPolicy(inherited, policy({ minScore: inherited.score! + 1 })).allowed, false);
+  });
+});
@@ -0,0 +1,105 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as path from 'path';
+import { makeTempDir, MockResponse, MockServer, startMockServer } from './helpers';
+
+// config.ts reads the API URL when first loaded, so yotoHttp is imported after it is set
+let http: typeof import('../src/yotoHttp');
+let config: typeof import('../src/config');
+let server: MockServer;
+let responses: MockResponse[] = [];
+const temp = makeTempDir();
+const warn = console.warn;
+
+before(async () => {
+  server = await startMockServer(() => responses.shift() || { status: 500, body: { error: 'unexpected_request' } });
+  process.env.YOTO_API_URL = server.url;
+  process.env.YOTO_CREDENTIALS_FILE = path.join(temp.dir, 'credentials.json');
+  http = await import('../src/yotoHttp');
+  config = await import('../src/config');
+  console.warn = () => {}; // Retry notices
+});
+
+after(async () => {
+  console.warn = warn;
+  await server.close();
+  temp.cleanup();
+});
+
+beforeEach(() => {
+  server.requests.length = 0;
+  responses = [];
+});
+
+describe('yotoRequest retries', () => {
+  it('retries a GET through server errors and dropped connections', async () => {
+    responses = [{ status: 502, body: 'Bad Gateway' }, { reset: true }, { body: { card: { cardId: 'c1' } } }];
+
+    const data = await http.yotoRequest('token', '/content/c1');
+
+    assert.equal(data.card.cardId, 'c1');
+    assert.equal(server.requests.length, 3);
+  });
+
+  it('never resends a POST after a server error', async () => {
+    responses = [{ status: 504, body: 'Gateway Timeout' }, { body: { displayIcon: { mediaId: 'm1' } } }];
+
+    await assert.rejects(http.yotoRequest('token', '/media/displayIcons/user/me/upload', { method: 'POST', body: Buffer.from('png') }),
+      http.YotoServerError);
+    assert.equal(server.requests.length, 1);
+  });
+
+  it('never resends a POST whose connection dropped', async () => {
+    responses = [{ reset: true }, { body: {} }];
+
+    await assert.rejects(http.yotoRequest('token', '/content', { method: 'POST', body: {} }), http.YotoNetworkError);
+    assert.equal(server.requests.length, 1);
+  });
+
+  it('retries a rate-limited POST, waiting as long as Retry-After asks', async () => {
+    responses = [{ status: 429, headers: { 'Retry-After': '1' }, body: 'slow down' }, { body: { ok: true } }];
+
+    const started = Date.now();
+    const data = await http.yotoRequest('token', '/content', { method: 'POST', body: {} });
+
+    assert.equal(data.ok, true);
+    assert.equal(server.requests.length, 2);
+    assert.ok(Date.now() - started >= 1000, 'Retry-After should be honoured');
+  });
+
+  it('gives up after the configured number of retries', async () => {
+    responses = [{ status: 503 }, { status: 503 }, { status: 503 }];
+
+    await assert.rejects(http.yotoRequest('token', '/content/c1', { maxRetries: 2 }), http.YotoServerError);
+    assert.equal(server.requests.length, 3);
+  });
+
+  it('does not retry a 2xx body that is not JSON', async () => {
+    responses = [{ body: '<html>maintenance</html>' }, { body: {} }];
+
+    await assert.rejects(http.yotoRequest('token', '/content/c1'), http.YotoResponseError);
+    assert.equal(server.requests.length, 1);
+  });
+
+  it('does not retry client errors', async () => {
+    responses = [{ status: 404, body: 'Not Found' }];
+
+    await assert.rejects(http.yotoRequest('token', '/content/missing'), http.YotoNotFoundError);
+    assert.equal(server.requests.length, 1);
+  });
+});
+
+describe('retryDelay', () => {
+  it('uses Retry-After, capped at the backoff ceiling', () => {
+    assert.equal(http.retryDelay(2000, 0), 2000);
+    assert.equal(http.retryDelay(3600 * 1000, 0), config.CONFIG.YOTO_RETRY_MAX_MS);
+  });
+
+  it('backs off exponentially with jitter without Retry-After', () => {
+    for (let attempt = 0; attempt < 10; attempt++) {
+      const delay = http.retryDelay(null, attempt);
+      assert.ok(delay >= 0);
+      assert.ok(delay <= Math.min(config.CONFIG.YOTO_RETRY_MAX_MS, config.CONFIG.YOTO_RETRY_BASE_MS * 2 ** attempt));
+    }
+  });
+});